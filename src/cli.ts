@@ -4,18 +4,82 @@ import chalk from 'chalk'
 import HJSamsungTv from 'samsung-remote-pin-paired'
 import SamsungTv, { KEYS } from 'samsung-tv-control'
 import readline from 'readline'
+import path from 'path'
+import storage from 'node-persist'
 import parseSerialNumber from './utils/parseSerialNumber'
-import { PLATFORM_NAME, PLUGIN_NAME } from './settings'
+import { DEVICES_KEY, PLATFORM_NAME, PLUGIN_NAME } from './settings'
 import { encodeIdentity } from './utils/identity'
-import detectDevices from './utils/detectDevices'
+import detectDevices, {
+  checkDeviceDetails,
+  getDeviceConfig,
+  SamsungTV,
+} from './utils/detectDevices'
+import * as remote from './utils/remote'
+import { parseMacro } from './utils/parseKeys'
+import parseApp from './utils/parseApp'
+import { probeHost } from './utils/unicastDiscovery'
+import { getDeviceInfo } from './utils/restApi'
+import getMacAddress from './utils/getMacAddress'
+import filterUSN from './utils/filterUSN'
+import {
+  closeConnections,
+  requestToken,
+  DeviceConnection,
+  NoTokenError,
+  HJ_APP_ID,
+  HJ_USER_ID,
+} from './utils/connection'
+import {
+  DEFAULT_CONFIG_PATH,
+  DEFAULT_STORAGE_PATH,
+  findDeviceEntry,
+  readConfig,
+  writeDeviceEntry,
+} from './utils/homebridgeConfig'
+import {
+  getConfigSnippet,
+  getDeviceEntry,
+  getPairingAttempts,
+  PairedDevice,
+  PairingAttempt,
+  PairingMethodName,
+} from './utils/pairing'
+import { DeviceConfig } from './types/deviceConfig'
+import {
+  getDeviceProfile,
+  LEGACY_PORT,
+  SECURE_WEBSOCKET_PORT,
+  WEBSOCKET_PORT,
+} from './utils/deviceProfile'
 
 const modelInfo = (model) => {
   console.log(parseSerialNumber(model))
+  console.log(`Device profile:`)
+  console.log(getDeviceProfile(model))
 }
 
-const discover = async () => {
+const collect = (value: string, previous: Array<string>) => [...previous, value]
+
+const discover = async ({
+  duration,
+  searchTarget,
+  interface: discoveryInterface,
+  retransmits,
+}: {
+  duration?: string
+  searchTarget: Array<string>
+  interface?: string
+  retransmits?: string
+}) => {
   console.log(chalk.yellow(`Searching for devices...`))
-  const devices = await detectDevices()
+  const devices = await detectDevices({
+    platform: PLATFORM_NAME,
+    devices: [],
+    discoveryDuration: duration ? parseInt(duration, 10) : undefined,
+    searchTargets: searchTarget,
+    discoveryInterface,
+    discoveryRetransmits: retransmits ? parseInt(retransmits, 10) : undefined,
+  })
   if (!devices.length) {
     console.log(
       chalk.red(
@@ -39,6 +103,46 @@ const discover = async () => {
   }
 }
 
+/**
+ * Writes the paired device into the homebridge config when `--config` was passed
+ */
+const saveToConfig = async (
+  ip: string,
+  paired: PairedDevice,
+  configOption?: string | boolean,
+) => {
+  if (!configOption) {
+    return
+  }
+  const configPath =
+    typeof configOption === `string` ? configOption : DEFAULT_CONFIG_PATH
+  let { usn } = paired
+  if (!usn) {
+    const found = await probeHost(ip)
+    usn = found ? filterUSN(found.usn) : undefined
+  }
+  try {
+    // Without a usn the entry is matched by its lastKnownIp
+    const { backupPath, created } = await writeDeviceEntry(
+      getDeviceEntry({ ...paired, usn }),
+      configPath,
+      ip,
+    )
+    console.log(
+      chalk`${created ? `Added` : `Updated`} the tv {green ${
+        usn || ip
+      }} in {green ${configPath}}, the old config was saved as {green ${backupPath}}. Restart homebridge to apply it.`,
+    )
+  } catch (err) {
+    console.log(chalk.red`${err.message}`)
+    if (!usn) {
+      console.log(
+        chalk.red`Could not determine the usn of ${ip}. Please add the token to your config manually.`,
+      )
+    }
+  }
+}
+
 const logPinAlternatives = ({
   ip,
   mac,
@@ -59,11 +163,15 @@ const logPinAlternatives = ({
   )
 }
 
-const pinPair = async (ip: string, mac: string) => {
+const pinPair = async (
+  ip: string,
+  mac: string,
+  { config }: { config?: string | boolean },
+) => {
   const deviceConfig = {
     ip,
-    appId: `721b6fce-4ee6-48ba-8045-955a539edadb`,
-    userId: `654321`,
+    appId: HJ_APP_ID,
+    userId: HJ_USER_ID,
   }
   const tv = new HJSamsungTv(deviceConfig)
   try {
@@ -97,11 +205,11 @@ const pinPair = async (ip: string, mac: string) => {
     )
     await tv.sendKey(`KEY_MUTE`)
     rl.close()
+    const token = encodeIdentity(identity)
     console.log(
-      chalk`If it worked, add this to your config as token: {green ${encodeIdentity(
-        identity,
-      )}}`,
+      chalk`If it worked, add this to your config as token: {green ${token}}`,
     )
+    await saveToConfig(ip, { token }, config)
     logPinAlternatives({
       ip,
       mac,
@@ -127,7 +235,7 @@ const logTokenAlternatives = ({
   startMessage?: string
 }) => {
   console.log(startMessage)
-  const ports = [`8001`, `8002`, `55000`]
+  const ports = [WEBSOCKET_PORT, SECURE_WEBSOCKET_PORT, LEGACY_PORT].map(String)
   const altPorts = ports.filter((p) => p !== port)
   let solution = 1
   for (let i = 0; i < altPorts.length; ++i) {
@@ -149,7 +257,7 @@ const logTokenAlternatives = ({
 const tokenPair = async (
   ip: string,
   mac: string,
-  { port }: { port: string },
+  { port, config: configOption }: { port: string; config?: string | boolean },
 ) => {
   const config = {
     ip,
@@ -158,7 +266,7 @@ const tokenPair = async (
     port: parseInt(port, 10),
   }
   const tv = new SamsungTv(config)
-  if (port === `55000`) {
+  if (port === `${LEGACY_PORT}`) {
     console.log(
       chalk.yellow`Port 55000 is usually the port for the legacy protocol without pairing and most likely won't work with pair2. Trying anyway.`,
     )
@@ -196,6 +304,15 @@ const tokenPair = async (
   console.log(
     chalk`Did the tv switch it's mute state? If yes then add this to your config as token: {green ${token}}\n`,
   )
+  if (configOption) {
+    // The model tells if the port has to be added to the config
+    const device = await detectPairingDevice(ip, { mac })
+    await saveToConfig(
+      ip,
+      { ...device, token, port: parseInt(port, 10) },
+      configOption,
+    )
+  }
   logTokenAlternatives({
     ip,
     mac,
@@ -235,7 +352,7 @@ const legacy = async (ip: string, mac: string, { port }: { port: string }) => {
     port: parseInt(port, 10),
   }
   const tv = new SamsungTv(config)
-  if (port === `8001` || port === `8002`) {
+  if (port === `${WEBSOCKET_PORT}` || port === `${SECURE_WEBSOCKET_PORT}`) {
     console.log(
       chalk.yellow`Port ${port} will most likely not work with the legacy protocol. You should try pair1 or pair2 instead. Trying anyway.`,
     )
@@ -263,6 +380,376 @@ const legacy = async (ip: string, mac: string, { port }: { port: string }) => {
   process.exit(0)
 }
 
+/**
+ * Time in ms to wait for the TV during a single pairing attempt
+ */
+const PAIRING_TIMEOUT = 1000 * 30
+
+const withTimeout = <T>(promise: Promise<T>, ms = PAIRING_TIMEOUT) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`Timed out after ${ms / 1000}s`))
+    }, ms)
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (err) => {
+        clearTimeout(timer)
+        reject(err)
+      },
+    )
+  })
+
+const ask = (question: string) =>
+  new Promise<string>((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    })
+    rl.question(question, (answer) => {
+      rl.close()
+      resolve(answer.trim())
+    })
+  })
+
+const isInteractive = () => !!process.stdin.isTTY
+
+/**
+ * Collects usn, name, model and mac of the TV unless they were passed
+ */
+const detectPairingDevice = async (
+  ip: string,
+  { mac, model }: { mac?: string; model?: string },
+) => {
+  const device: PairedDevice = { mac, modelName: model }
+  const found = await probeHost(ip)
+  if (found) {
+    const usn = filterUSN(found.usn)
+    const tv = await checkDeviceDetails(
+      { USN: found.usn, LOCATION: found.location },
+      ip,
+      {
+        platform: PLATFORM_NAME,
+        devices: [{ usn, mac, modelName: model } as DeviceConfig],
+      },
+    )
+    device.usn = usn
+    if (tv) {
+      device.name = tv.friendlyName
+      device.modelName = model || tv.modelName
+      device.mac = mac || tv.mac
+    }
+  }
+  if (!device.modelName || !device.mac) {
+    try {
+      const { device: info } = await getDeviceInfo(ip)
+      device.name = device.name || info.name
+      device.modelName = device.modelName || info.modelName
+      device.mac = device.mac || info.wifiMac
+    } catch (err) {
+      // Only Tizen TV's have the REST API
+    }
+  }
+  if (!device.mac) {
+    try {
+      device.mac = await getMacAddress(ip, found ? found.location : undefined)
+    } catch (err) {
+      // Handled below
+    }
+  }
+  return device
+}
+
+/**
+ * Pairs with the method and sends the MUTE key. Resolves with the token
+ * the method needs (if any).
+ */
+const tryPairing = async (
+  ip: string,
+  mac: string,
+  { method, port }: PairingAttempt,
+  pin?: string,
+): Promise<string | null> => {
+  if (method === `pin`) {
+    const tv = new HJSamsungTv({ ip, appId: HJ_APP_ID, userId: HJ_USER_ID })
+    await withTimeout(tv.init())
+    await withTimeout(tv.requestPin())
+    const confirmedPin =
+      pin ||
+      (isInteractive()
+        ? await ask(`Please enter the pin you see on your tv\n`)
+        : ``)
+    if (!confirmedPin) {
+      throw new Error(`No pin given, use --pin to pass it`)
+    }
+    const identity = await withTimeout<{ [key: string]: string }>(
+      tv.confirmPin(confirmedPin),
+    )
+    await withTimeout(tv.connect())
+    await withTimeout(tv.sendKey(`KEY_MUTE`))
+    return encodeIdentity(identity)
+  }
+  if (!port) {
+    throw new Error(`No port to try`)
+  }
+  let token: string | null = null
+  if (method === `token`) {
+    console.log(`Please click allow when your tv asks for it`)
+    try {
+      token = await requestToken({ ip, mac, port })
+    } catch (err) {
+      // TV's that are controlled over port 8001 might not hand out a token
+      if (!(err instanceof NoTokenError) || port !== WEBSOCKET_PORT) {
+        throw err
+      }
+    }
+  }
+  const connection = new DeviceConnection({
+    ip,
+    mac,
+    port,
+    token: token || undefined,
+  })
+  try {
+    await connection.sendKeys([KEYS.KEY_MUTE])
+  } finally {
+    connection.close()
+  }
+  return token
+}
+
+const pairWizard = async (
+  ip: string,
+  {
+    mac: configuredMac,
+    model,
+    method: methods,
+    pin,
+    yes,
+    config,
+  }: {
+    mac?: string
+    model?: string
+    method: Array<string>
+    pin?: string
+    yes?: boolean
+    config?: string | boolean
+  },
+) => {
+  const invalidMethod = methods.find(
+    (m) => [`legacy`, `token`, `pin`].indexOf(m) === -1,
+  )
+  if (invalidMethod) {
+    console.log(
+      chalk.red`Unknown pairing method "${invalidMethod}". Use legacy, token or pin.`,
+    )
+    process.exit(1)
+  }
+  console.log(chalk.yellow(`Looking for the tv at ${ip}...`))
+  const device = await detectPairingDevice(ip, { mac: configuredMac, model })
+  const { mac, modelName } = device
+  if (!mac) {
+    console.log(
+      chalk.red`Could not determine the mac address of ${ip}. Please pass it with {green --mac}.`,
+    )
+    process.exit(1)
+    return
+  }
+  if (modelName) {
+    console.log(chalk`Found {blue ${device.name || ip}} ({green ${modelName}})`)
+  } else {
+    console.log(
+      chalk.yellow`Could not determine the model of ${ip}, trying all pairing methods. You can pass it with {green --model}.`,
+    )
+  }
+
+  const attempts = getPairingAttempts(
+    modelName,
+    methods.length ? (methods as Array<PairingMethodName>) : undefined,
+  )
+  for (const attempt of attempts) {
+    const { method, port } = attempt
+    console.log(
+      chalk`Trying {yellow ${method}}${
+        port ? ` on port ${port}` : ``
+      }. I'll send the MUTE key to your tv to see if it works...`,
+    )
+    let token: string | null
+    try {
+      token = await tryPairing(ip, mac, attempt, pin)
+    } catch (err) {
+      console.log(chalk.red`That didn't work: ${err.message}`)
+      continue
+    }
+    if (!yes && isInteractive()) {
+      const answer = await ask(`Did the tv switch it's mute state? (y/n) `)
+      if (!/^y(es)?$/i.test(answer)) {
+        continue
+      }
+    }
+    console.log(chalk.green`Pairing worked. Add this to your config:`)
+    console.log(getConfigSnippet({ ...device, token, port }))
+    await saveToConfig(ip, { ...device, token, port }, config)
+    process.exit(0)
+  }
+  console.log(
+    chalk.red`😞 None of the pairing methods worked. Make sure the tv is turned on and try again.`,
+  )
+  process.exit(1)
+}
+
+/**
+ * Loads the device the plugin stored for the ip (or usn) and applies the
+ * config like the plugin does. TV's the plugin doesn't know yet are detected.
+ */
+const loadDevice = async (ip: string, storagePath = DEFAULT_STORAGE_PATH) => {
+  await storage.init({ dir: path.join(storagePath, `.${PLUGIN_NAME}`) })
+  const storedDevices: Array<DeviceConfig> =
+    (await storage.getItem(DEVICES_KEY)) || []
+  let device = storedDevices.find((d) => d.lastKnownIp === ip || d.usn === ip)
+  if (!device) {
+    const found = await probeHost(ip)
+    let tv: SamsungTV | null = null
+    if (found) {
+      tv = await checkDeviceDetails(
+        { USN: found.usn, LOCATION: found.location },
+        ip,
+      )
+    }
+    if (!tv) {
+      throw new Error(`Could not find a Samsung TV at ${ip}`)
+    }
+    device = getDeviceConfig(tv)
+  }
+  try {
+    const config = await readConfig(path.join(storagePath, `config.json`))
+    const configDevice = findDeviceEntry(config, device.usn)
+    if (configDevice) {
+      device = { ...device, ...configDevice }
+    }
+  } catch (err) {
+    // Use the stored device as it is
+  }
+  return device
+}
+
+/**
+ * Stores tokens the TV hands out the same way the plugin does
+ */
+const storeToken = async ({ usn }: DeviceConfig, token: string) => {
+  const storedDevices: Array<DeviceConfig> =
+    (await storage.getItem(DEVICES_KEY)) || []
+  const storedDevice = storedDevices.find((d) => d.usn === usn)
+  if (storedDevice) {
+    storedDevice.token = token
+    await storage.updateItem(DEVICES_KEY, storedDevices)
+  }
+}
+
+/**
+ * Loads the device, runs the command and exits
+ */
+const control = async (
+  ip: string,
+  { storage: storagePath }: { storage?: string },
+  command: (device: DeviceConfig) => Promise<void>,
+) => {
+  const tokenWrites: Array<Promise<void>> = []
+  remote.onTokenChanged((device, token) => {
+    device.token = token
+    tokenWrites.push(storeToken(device, token).catch(() => undefined))
+  })
+  remote.onTokenRejected((device) => {
+    console.log(
+      chalk.red`${device.name} rejected the token. Run {green npx ${PLUGIN_NAME} pair ${ip}} to pair it again.`,
+    )
+  })
+  let exitCode = 0
+  try {
+    await command(await loadDevice(ip, storagePath))
+  } catch (err) {
+    console.log(chalk.red(err.message))
+    exitCode = 1
+  }
+  closeConnections()
+  await Promise.all(tokenWrites)
+  process.exit(exitCode)
+}
+
+const sendKeys = async (device: DeviceConfig, keys: string) => {
+  const steps = parseMacro(keys, device.installedApps)
+  await remote.runMacro(device, steps)
+}
+
+const openApp = async (device: DeviceConfig, name: string) => {
+  const app =
+    parseApp(name, device.installedApps) ||
+    parseApp(`app:${name}`, device.installedApps)
+  if (!app) {
+    throw new Error(`Unknown app "${name}"`)
+  }
+  await remote.openApp(device, app.appId, app.metaTag)
+}
+
+const volume = async (device: DeviceConfig, value?: string) => {
+  if (value === undefined) {
+    console.log(await remote.getVolume(device))
+  } else if (value === `up`) {
+    await remote.volumeUp(device)
+  } else if (value === `down`) {
+    await remote.volumeDown(device)
+  } else if (/^[0-9]+$/.test(value)) {
+    await remote.setVolume(device, parseInt(value, 10))
+  } else {
+    throw new Error(`Expected a volume, "up" or "down" but found "${value}"`)
+  }
+}
+
+const mute = async (device: DeviceConfig, state?: string) => {
+  if (state === undefined) {
+    console.log((await remote.getMute(device)) ? `on` : `off`)
+    return
+  }
+  if (!/^(on|off)$/.test(state)) {
+    throw new Error(`Expected "on" or "off" but found "${state}"`)
+  }
+  await remote.setMute(device, state === `on`)
+}
+
+const power = async (device: DeviceConfig, state: string) => {
+  if (!/^(on|off)$/.test(state)) {
+    throw new Error(`Expected "on" or "off" but found "${state}"`)
+  }
+  await remote.setActive(device, state === `on`)
+  if (state === `on` && !(await remote.waitForActive(device))) {
+    throw new Error(`${device.name} did not turn on`)
+  }
+}
+
+const state = async (device: DeviceConfig) => {
+  const active = await remote.getActive(device)
+  console.log(chalk`{blue ${device.name}:}`)
+  console.log(chalk`\tmodel: {green ${device.modelName}}`)
+  console.log(chalk`\tusn: {green ${device.usn}}`)
+  console.log(chalk`\tip-address: {green ${device.lastKnownIp}}`)
+  console.log(chalk`\tmac-address: {green ${device.mac}}`)
+  console.log(chalk`\tpaired: {green ${device.token ? `yes` : `no`}}`)
+  console.log(chalk`\tpower: {green ${active ? `on` : `off`}}`)
+  if (!active) {
+    return
+  }
+  try {
+    console.log(chalk`\tvolume: {green ${await remote.getVolume(device)}}`)
+    console.log(
+      chalk`\tmute: {green ${(await remote.getMute(device)) ? `on` : `off`}}`,
+    )
+  } catch (err) {
+    // Not every TV has the RenderingControl service
+  }
+}
+
 const program = new Command()
 
 program
@@ -275,28 +762,144 @@ program
   .description(
     `Starts a manual device discovery. Note: Found devices will not be added to homebridge. This is just for testing purposes.`,
   )
+  .option(`-d, --duration <ms>`, `Time to wait for answers.`, `5000`)
+  .option(
+    `-t, --search-target <st>`,
+    `Additional search target. Can be used multiple times.`,
+    collect,
+    [],
+  )
+  .option(
+    `-i, --interface <interface>`,
+    `Name or ip address of the network interface to search on.`,
+  )
+  .option(
+    `-r, --retransmits <count>`,
+    `How often the search requests are repeated.`,
+    `0`,
+  )
   .action(discover)
 
+program
+  .command(`pair <ip>`)
+  .description(
+    `Detects the tv and tries all pairing methods, the most promising one first.`,
+  )
+  .option(`-m, --mac <mac>`, `Mac address, if it can't be detected.`)
+  .option(`--model <model>`, `Model name, if it can't be detected.`)
+  .option(
+    `--method <method>`,
+    `Only try this method (legacy, token or pin). Can be used multiple times.`,
+    collect,
+    [],
+  )
+  .option(`--pin <pin>`, `Pin shown on the tv, for pin pairing without a tty.`)
+  .option(
+    `-y, --yes`,
+    `Don't ask if MUTE toggled, accept the first method that doesn't fail.`,
+  )
+  .option(
+    `-c, --config [path]`,
+    `Write the token into the homebridge config (default: ${DEFAULT_CONFIG_PATH}). The old config is backed up first.`,
+  )
+  .action(pairWizard)
+
 program
   .command(`pair1 <ip> <mac>`)
   .description(
     `Starts the first pairing method. E.g. for TV's that require pin pairing.`,
   )
+  .option(
+    `-c, --config [path]`,
+    `Write the token into the homebridge config (default: ${DEFAULT_CONFIG_PATH}). The old config is backed up first.`,
+  )
   .action(pinPair)
 
 program
   .command(`pair2 <ip> <mac>`)
   .option(
     `-p, --port <port>`,
-    `Remote control port for method 1. You might try 8001 as well here.`,
-    `8002`,
+    `Remote control port for method 1. You might try ${WEBSOCKET_PORT} as well here.`,
+    `${SECURE_WEBSOCKET_PORT}`,
+  )
+  .option(
+    `-c, --config [path]`,
+    `Write the token into the homebridge config (default: ${DEFAULT_CONFIG_PATH}). The old config is backed up first.`,
   )
   .action(tokenPair)
 
 program
   .command(`legacy <ip> <mac>`)
   .description(`Tests if the legacy protocol can be used`)
-  .option(`-p, --port <port>`, `Remote control port.`, `55000`)
+  .option(`-p, --port <port>`, `Remote control port.`, `${LEGACY_PORT}`)
   .action(legacy)
 
+program
+  .command(`key <ip> <keys>`)
+  .description(
+    `Sends keys to the tv. Uses the syntax of inputs e.g. "KEY_MUTE,KEY_DOWN*3".`,
+  )
+  .option(
+    `-s, --storage <path>`,
+    `Storage path of homebridge with the config and the stored devices (default: ${DEFAULT_STORAGE_PATH}).`,
+  )
+  .action((ip, keys, options) =>
+    control(ip, options, (device) => sendKeys(device, keys)),
+  )
+
+program
+  .command(`app <ip> <app>`)
+  .description(`Opens an app by its name or id e.g. "Netflix".`)
+  .option(
+    `-s, --storage <path>`,
+    `Storage path of homebridge with the config and the stored devices (default: ${DEFAULT_STORAGE_PATH}).`,
+  )
+  .action((ip, app, options) =>
+    control(ip, options, (device) => openApp(device, app)),
+  )
+
+program
+  .command(`volume <ip> [value]`)
+  .description(
+    `Shows the volume or sets it to the value. Use "up" or "down" to change it by one.`,
+  )
+  .option(
+    `-s, --storage <path>`,
+    `Storage path of homebridge with the config and the stored devices (default: ${DEFAULT_STORAGE_PATH}).`,
+  )
+  .action((ip, value, options) =>
+    control(ip, options, (device) => volume(device, value)),
+  )
+
+program
+  .command(`mute <ip> [state]`)
+  .description(`Shows the mute state or turns mute on or off.`)
+  .option(
+    `-s, --storage <path>`,
+    `Storage path of homebridge with the config and the stored devices (default: ${DEFAULT_STORAGE_PATH}).`,
+  )
+  .action((ip, muteState, options) =>
+    control(ip, options, (device) => mute(device, muteState)),
+  )
+
+program
+  .command(`power <ip> <state>`)
+  .description(`Turns the tv on or off.`)
+  .option(
+    `-s, --storage <path>`,
+    `Storage path of homebridge with the config and the stored devices (default: ${DEFAULT_STORAGE_PATH}).`,
+  )
+  .action((ip, powerState, options) =>
+    control(ip, options, (device) => power(device, powerState)),
+  )
+
+program
+  .command(`state <ip>`)
+  .description(`Shows the power state, volume and mute state of the tv.`)
+  .option(
+    `-s, --storage <path>`,
+    `Storage path of homebridge with the config and the stored devices (default: ${DEFAULT_STORAGE_PATH}).`,
+  )
+  .action((ip, options) => control(ip, options, state))
+
 program.parse(process.argv)
@@ -8,18 +8,98 @@ import {
   Characteristic,
   DynamicPlatformPlugin,
 } from 'homebridge'
-import { PLUGIN_NAME, PLATFORM_NAME } from './settings'
-import detectDevices from './utils/detectDevices'
+import { PLUGIN_NAME, PLATFORM_NAME, DEVICES_KEY } from './settings'
+import detectDevices, {
+  checkDevice,
+  getDeviceConfig,
+  SamsungTV,
+  MEDIA_RENDERER,
+} from './utils/detectDevices'
 import * as remote from './utils/remote'
+import { closeConnections, NoTokenError } from './utils/connection'
+import { RenderingControlEvents } from './utils/subscriptions'
+import { SsdpNotification, SsdpNotifyListener } from './utils/ssdpNotify'
+import getInterfaceAddresses from './utils/networkInterface'
 import hasCapability from './utils/hasCapability'
-import parseKeys from './utils/parseKeys'
-import { DeviceConfig, SamsungPlatformConfig } from './types/deviceConfig'
-import { KEYS, APPS } from 'samsung-tv-control'
+import { getDeviceProfile } from './utils/deviceProfile'
+import parseKeys, { parseMacro, MacroStep } from './utils/parseKeys'
+import { filterApps } from './utils/installedApps'
+import { parseChannelFile } from './utils/channels'
+import { isSourceType, getActions, MAIN_TV_SERVER } from './utils/mainTVAgent'
+import parseApp from './utils/parseApp'
+import {
+  Channel,
+  DeviceConfig,
+  InputState,
+  RemoteKeyName,
+  SamsungPlatformConfig,
+  TVSource,
+} from './types/deviceConfig'
+import { KEYS } from 'samsung-tv-control'
 import storage from 'node-persist'
 import chalk from 'chalk'
 import path from 'path'
+import fs from 'fs'
+
+/**
+ * Intervals in ms to poll the active state of the TV's. Polling is
+ * less frequent when TV's notify about going on- or offline themselves.
+ */
+const ACTIVE_POLL_INTERVAL = 1000 * 15
+const PASSIVE_ACTIVE_POLL_INTERVAL = 1000 * 60
+
+/**
+ * Time in ms before a TV that didn't hand out a token is asked again.
+ * Doubles with every failed request up to a day.
+ */
+const TOKEN_REQUEST_INTERVAL = 1000 * 60 * 10
+const MAX_TOKEN_REQUEST_INTERVAL = 1000 * 60 * 60 * 24
+
+const REMOTE_KEYS: Array<RemoteKeyName> = [
+  `REWIND`,
+  `FAST_FORWARD`,
+  `NEXT_TRACK`,
+  `PREVIOUS_TRACK`,
+  `ARROW_UP`,
+  `ARROW_DOWN`,
+  `ARROW_LEFT`,
+  `ARROW_RIGHT`,
+  `SELECT`,
+  `BACK`,
+  `EXIT`,
+  `PLAY_PAUSE`,
+  `INFORMATION`,
+]
+
+const mergeCapabilities = (a: Array<string>, b: Array<string>) => [
+  ...a,
+  ...b.filter((c) => a.indexOf(c) === -1),
+]
+
+interface TokenRequest {
+  last: number
+  failures: number
+  pending: boolean
+  /**
+   * The TV accepts the remote without a token
+   */
+  tokenless?: boolean
+}
 
-const DEVICES_KEY = `${PLATFORM_NAME}_devices`
+interface InputSource {
+  label: string
+  type: number
+  appId?: string
+  /**
+   * Apps that were only added because they are installed on the TV
+   */
+  installed?: boolean
+  /**
+   * Source of the MainTVAgent2 service e.g. `HDMI1`
+   */
+  source?: string
+  fn?: (config: DeviceConfig) => Promise<void>
+}
 
 export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
   public readonly Service: typeof Service = this.api.hap.Service
@@ -27,7 +107,32 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     this.api.hap.Characteristic
 
   public readonly tvAccessories: Array<PlatformAccessory> = []
+  public readonly cachedAccessories: Array<PlatformAccessory> = []
   private devices: Array<DeviceConfig> = []
+  private readonly renderingControlEvents = new RenderingControlEvents(this.log)
+  private readonly ssdpNotifyListener = new SsdpNotifyListener(this.log)
+  private activePollInterval = ACTIVE_POLL_INTERVAL
+  /**
+   * Usn's of unknown devices that announced themselves and were checked,
+   * including the ones that are not supported
+   */
+  private readonly checkedUsns: Array<string> = []
+  /**
+   * Locations of the MainTVServer2 devices that announced themselves by ip
+   */
+  private readonly mainTVAgentLocations: { [address: string]: string } = {}
+  /**
+   * Token requests per usn to not spam the TV's with prompts
+   */
+  private readonly tokenRequests: { [usn: string]: TokenRequest } = {}
+  /**
+   * Usn's of TV's whose config token differs from the one the TV handed out
+   */
+  private readonly changedConfigTokens: Array<string> = []
+  /**
+   * Config tokens the TV's rejected, each of them is only warned about once
+   */
+  private readonly rejectedConfigTokens: Array<string> = []
 
   constructor(
     public readonly log: Logger,
@@ -43,6 +148,21 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
 
     this.log.debug(`Got config`, this.config)
 
+    remote.onTokenRejected(async ({ usn }) => {
+      try {
+        await this.handleRejectedToken(usn)
+      } catch (err) {
+        this.log.debug(`Could not handle rejected token`, err)
+      }
+    })
+    remote.onTokenChanged(async ({ usn }, token) => {
+      try {
+        await this.handleChangedToken(usn, token)
+      } catch (err) {
+        this.log.debug(`Could not store the new token`, err)
+      }
+    })
+
     // Add devices
     api.on(APIEvent.DID_FINISH_LAUNCHING, async () => {
       const dir = path.join(api.user.storagePath(), `.${PLUGIN_NAME}`)
@@ -55,34 +175,33 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
       let devices = await this.discoverDevices()
       devices = await this.applyConfig(devices)
       this.devices = await this.checkDevicePairing(devices)
+      await this.startNotifyListener()
 
       // Register all TV's
       for (const device of this.devices) {
-        // Log all devices so that the user knows how to configure them
-        this.log.info(
-          chalk`Found device {blue ${device.name}} (${device.modelName}), usn: {green ${device.usn}}`,
-        )
-        this.log.debug(
-          `${device.name} - (ip: ${device.lastKnownIp}, mac: ${device.mac})`,
-        )
-        // Register it
+        await this.updateInstalledApps(device)
+        await this.updateChannels(device)
+        await this.updateSources(device)
+        this.logDevice(device)
         this.registerTV(device.usn)
       }
+      this.removeStaleAccessories()
 
       // Regularly discover upnp devices and update ip's, locations for registered devices
       setInterval(async () => {
-        const devices = await this.discoverDevices()
-        this.devices = await this.applyConfig(devices)
-        /**
-         * @todo
-         * add previously not registered devices
-         */
+        try {
+          await this.rediscoverDevices()
+        } catch (err) {
+          this.log.warn(`Could not rediscover devices`, err)
+        }
       }, 1000 * 60 * 5 /* 5min */)
+    })
 
-      /**
-       * @TODO
-       * Add subscriptions to update getters
-       */
+    // Close open remote sessions and event subscriptions
+    api.on(APIEvent.SHUTDOWN, async () => {
+      closeConnections()
+      this.ssdpNotifyListener.close()
+      await this.renderingControlEvents.close()
     })
   }
 
@@ -90,8 +209,226 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
    * This function is invoked when homebridge restores cached accessories from disk at startup.
    * It should be used to setup event handlers for characteristics and update respective values.
    */
-  configureAccessory(): void {
-    this.log.debug(`Configuring accessory`)
+  configureAccessory(accessory: PlatformAccessory): void {
+    this.log.debug(`Configuring accessory`, accessory.displayName)
+    this.cachedAccessories.push(accessory)
+  }
+
+  /**
+   * Unregisters cached accessories of TV's that are ignored now,
+   * published as external accessory or not known anymore
+   */
+  private removeStaleAccessories() {
+    const staleAccessories = this.cachedAccessories.filter(
+      (a) => this.tvAccessories.indexOf(a) === -1,
+    )
+    if (!staleAccessories.length) {
+      return
+    }
+    for (const accessory of staleAccessories) {
+      this.log.debug(`Removing cached accessory`, accessory.displayName)
+      this.cachedAccessories.splice(
+        this.cachedAccessories.indexOf(accessory),
+        1,
+      )
+    }
+    this.api.unregisterPlatformAccessories(
+      PLUGIN_NAME,
+      PLATFORM_NAME,
+      staleAccessories,
+    )
+  }
+
+  /**
+   * Persists changes the user made to an input source in the home app
+   * since external accessories are not cached by homebridge
+   */
+  private async saveInputState(
+    usn: string,
+    subtype: string,
+    state: InputState,
+  ) {
+    await this.updateStoredDevice(usn, ({ inputStates }) => ({
+      inputStates: {
+        ...inputStates,
+        [subtype]: { ...(inputStates || {})[subtype], ...state },
+      },
+    }))
+  }
+
+  /**
+   * Applies changes to the stored device and the one in use
+   */
+  private async updateStoredDevice(
+    usn: string,
+    update: (storedDevice: DeviceConfig) => Partial<DeviceConfig>,
+  ) {
+    const devices: Array<DeviceConfig> = await storage.getItem(DEVICES_KEY)
+    const storedDevice = Array.isArray(devices)
+      ? devices.find((d) => d.usn === usn)
+      : null
+    if (!storedDevice) {
+      return
+    }
+    const changes = update(storedDevice)
+    Object.assign(storedDevice, changes)
+    await storage.updateItem(DEVICES_KEY, devices)
+
+    const device = this.getDevice(usn)
+    if (device) {
+      Object.assign(device, changes)
+    }
+  }
+
+  /**
+   * Fetches the apps installed on the TV and caches them
+   * so that they can be used while the TV is off
+   */
+  private async updateInstalledApps(device: DeviceConfig) {
+    if (
+      !device.showInstalledApps ||
+      device.ignore ||
+      !device.discovered ||
+      !remote.supportsRestApi(device)
+    ) {
+      return
+    }
+    let apps
+    try {
+      apps = await remote.getInstalledApps(device)
+    } catch (err) {
+      this.log.debug(
+        `${device.name} - Could not fetch installed apps, using cached ones`,
+        err,
+      )
+      return
+    }
+    const { installedApps = [] } = device
+    const appIds = apps.map(({ appId }) => appId).join()
+    if (!apps.length || appIds === installedApps.map((a) => a.appId).join()) {
+      return
+    }
+    this.log.debug(`${device.name} - Found ${apps.length} installed apps`)
+    await this.updateStoredDevice(device.usn, () => ({ installedApps: apps }))
+    if (this.getAccessory(device.usn)) {
+      this.log.info(
+        `${device.name} - The installed apps changed, restart homebridge to update the inputs`,
+      )
+    }
+  }
+
+  /**
+   * Loads the channels from the configured file or from the TV
+   * and caches them so that they can be used while the TV is off
+   */
+  private async updateChannels(device: DeviceConfig) {
+    if (!device.showChannels || device.ignore) {
+      return
+    }
+    let channels: Array<Channel> | null = null
+    try {
+      if (device.channelList) {
+        const file = path.resolve(
+          this.api.user.storagePath(),
+          device.channelList,
+        )
+        const contents = await fs.promises.readFile(file, `utf8`)
+        channels = parseChannelFile(contents, file)
+      } else if (device.discovered) {
+        channels = await remote.getChannels(device)
+      }
+    } catch (err) {
+      this.log.warn(
+        `${device.name} - Could not load the channel list, using cached channels`,
+        err.message,
+      )
+      return
+    }
+    const { channels: cachedChannels = [] } = device
+    if (
+      !channels ||
+      !channels.length ||
+      JSON.stringify(channels) === JSON.stringify(cachedChannels)
+    ) {
+      return
+    }
+    this.log.debug(`${device.name} - Found ${channels.length} channels`)
+    await this.updateStoredDevice(device.usn, () => ({
+      channels: channels as Array<Channel>,
+    }))
+    if (this.getAccessory(device.usn)) {
+      this.log.info(
+        `${device.name} - The channels changed, restart homebridge to update the inputs`,
+      )
+    }
+  }
+
+  /**
+   * Fetches the sources of the TV and caches them
+   */
+  private async updateSources(device: DeviceConfig) {
+    if (!device.showSources || device.ignore || !device.discovered) {
+      return
+    }
+    let sourceList: Array<TVSource> | null
+    try {
+      const sourceStates = await remote.getSources(device)
+      // Only keep what identifies the sources
+      sourceList =
+        sourceStates &&
+        sourceStates.map(({ type, id, name }) => ({ type, id, name }))
+    } catch (err) {
+      this.log.debug(
+        `${device.name} - Could not fetch sources, using cached ones`,
+        err,
+      )
+      return
+    }
+    const { sourceList: cachedSourceList = [] } = device
+    if (
+      !sourceList ||
+      !sourceList.length ||
+      JSON.stringify(sourceList) === JSON.stringify(cachedSourceList)
+    ) {
+      return
+    }
+    this.log.debug(`${device.name} - Found ${sourceList.length} sources`)
+    await this.updateStoredDevice(device.usn, () => ({
+      sourceList: sourceList as Array<TVSource>,
+    }))
+    if (this.getAccessory(device.usn)) {
+      this.log.info(
+        `${device.name} - The sources changed, restart homebridge to update the inputs`,
+      )
+    }
+  }
+
+  /**
+   * Maps MainTVAgent2 source types like `HDMI1/DVI` to HomeKit types
+   */
+  private getInputSourceType(sourceType: string) {
+    const { InputSourceType } = this.Characteristic
+    const type = sourceType.toUpperCase()
+    if (type.startsWith(`HDMI`)) {
+      return InputSourceType.HDMI
+    }
+    // TV, DTV, ATV, CATV
+    if (type.endsWith(`TV`)) {
+      return InputSourceType.TUNER
+    }
+    if (type.startsWith(`COMPONENT`)) {
+      return InputSourceType.COMPONENT_VIDEO
+    }
+    if (type.startsWith(`AV`)) {
+      return InputSourceType.COMPOSITE_VIDEO
+    }
+    if (type.startsWith(`USB`)) {
+      return InputSourceType.USB
+    }
+    if (type.startsWith(`DVI`)) {
+      return InputSourceType.DVI
+    }
+    return InputSourceType.OTHER
   }
 
   private async discoverDevices() {
@@ -108,25 +445,8 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
       this.config as SamsungPlatformConfig,
     )
     for (const tv of samsungTVs) {
-      const {
-        usn,
-        friendlyName: name,
-        modelName,
-        location: lastKnownLocation,
-        address: lastKnownIp,
-        mac,
-        capabilities,
-      } = tv
-      const device: DeviceConfig = {
-        name,
-        modelName,
-        lastKnownLocation,
-        lastKnownIp,
-        mac,
-        usn,
-        delay: 500,
-        capabilities,
-      }
+      const device = getDeviceConfig(tv)
+      const { usn } = device
       // Check if the tv was in the devices list before
       // if so, only replace the relevant parts
       // const existingDevice = devices[usn];
@@ -135,12 +455,27 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
         this.log.debug(
           `Rediscovered previously seen device "${device.name}" (${device.modelName}), usn: "${device.usn}"`,
         )
+        // Keep the known capabilities when they couldn't be checked
+        let capabilities = device.capabilities.length
+          ? device.capabilities
+          : existingDevice.capabilities
+        // The MainTVServer2 doesn't answer every scan so keep its actions
+        if (!device.mainTVAgentLocation) {
+          capabilities = mergeCapabilities(
+            capabilities,
+            existingDevice.capabilities,
+          )
+        }
         devices.push({
           ...existingDevice,
           modelName: device.modelName,
           lastKnownLocation: device.lastKnownLocation,
           lastKnownIp: device.lastKnownIp,
-          token: device.token,
+          mainTVAgentLocation:
+            device.mainTVAgentLocation || existingDevice.mainTVAgentLocation,
+          capabilities,
+          // Keep the token the TV handed out
+          token: existingDevice.token,
           discovered: true,
         })
       } else {
@@ -168,6 +503,257 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     return devices
   }
 
+  /**
+   * Updates ip's and locations of registered devices and
+   * registers devices that were not available before
+   */
+  private async rediscoverDevices() {
+    let devices = await this.discoverDevices()
+    devices = await this.applyConfig(devices)
+    this.devices = devices
+
+    for (const device of devices) {
+      await this.updateInstalledApps(device)
+      await this.updateChannels(device)
+      await this.updateSources(device)
+      const tvAccessory = this.getAccessory(device.usn)
+      if (tvAccessory) {
+        tvAccessory.context = device
+        await this.renderingControlEvents.update(
+          device.usn,
+          device.lastKnownLocation,
+        )
+        continue
+      }
+      if (!device.discovered || device.ignore) {
+        continue
+      }
+      await this.checkDevicePairing([device])
+      this.logDevice(device)
+      this.registerTV(device.usn)
+    }
+  }
+
+  /**
+   * Listens for TV's announcing that they joined or left the network
+   */
+  private async startNotifyListener() {
+    const { passiveDiscovery = true, discoveryInterface } = this
+      .config as SamsungPlatformConfig
+    if (!passiveDiscovery) {
+      return
+    }
+    let interfaceAddresses: Array<string> = []
+    if (discoveryInterface) {
+      try {
+        interfaceAddresses = getInterfaceAddresses(discoveryInterface)
+      } catch (err) {
+        this.log.warn(err.message)
+      }
+    }
+    try {
+      await this.ssdpNotifyListener.start(async (notification) => {
+        try {
+          await this.handleNotification(notification)
+        } catch (err) {
+          this.log.debug(`Could not handle ssdp notification`, err)
+        }
+      }, interfaceAddresses)
+      this.activePollInterval = PASSIVE_ACTIVE_POLL_INTERVAL
+    } catch (err) {
+      this.log.warn(
+        `Could not listen for ssdp notifications, polling TV's instead`,
+        err.message,
+      )
+    }
+  }
+
+  /**
+   * Updates the ip, location and active state of known TV's
+   * and registers new TV's when they announce themselves
+   */
+  private async handleNotification({
+    type,
+    usn,
+    nts,
+    location,
+    address,
+  }: SsdpNotification) {
+    if (type === `alive` && location && nts.indexOf(MAIN_TV_SERVER) !== -1) {
+      await this.handleMainTVServer(location, address)
+      return
+    }
+    const device = this.getDevice(usn)
+    if (!device) {
+      if (type === `alive` && location && nts.indexOf(MEDIA_RENDERER) !== -1) {
+        await this.addAnnouncedDevice(usn, location, address)
+      }
+      return
+    }
+    if (device.ignore) {
+      return
+    }
+    const tvAccessory = this.getAccessory(usn)
+    const tvService = tvAccessory
+      ? tvAccessory.getService(this.Service.Television)
+      : undefined
+    if (type === `byebye`) {
+      this.log.debug(`${device.name} - Left the network`)
+      if (tvService) {
+        tvService.updateCharacteristic(
+          this.Characteristic.Active,
+          this.Characteristic.Active.INACTIVE,
+        )
+      }
+      return
+    }
+    if (
+      location &&
+      (location !== device.lastKnownLocation || address !== device.lastKnownIp)
+    ) {
+      this.log.debug(`${device.name} - Announced new location ${location}`)
+      await this.updateStoredDevice(usn, () => ({
+        lastKnownLocation: location,
+        lastKnownIp: address,
+      }))
+      if (tvAccessory) {
+        tvAccessory.context = device
+        await this.renderingControlEvents.update(usn, location)
+      }
+    }
+    if (!tvAccessory) {
+      // The TV was offline when homebridge started
+      device.discovered = true
+      await this.setupDevice(device)
+      return
+    }
+    // Tizen TV's announce themselves in network standby as well
+    let isActive = false
+    try {
+      isActive = await remote.getActive(device)
+    } catch (err) {
+      // eslint-disable-line
+    }
+    if (tvService) {
+      tvService.updateCharacteristic(
+        this.Characteristic.Active,
+        isActive
+          ? this.Characteristic.Active.ACTIVE
+          : this.Characteristic.Active.INACTIVE,
+      )
+    }
+  }
+
+  /**
+   * Checks and registers a device that wasn't discovered before
+   */
+  private async addAnnouncedDevice(
+    usn: string,
+    location: string,
+    address: string,
+  ) {
+    if (this.checkedUsns.indexOf(usn) !== -1) {
+      return
+    }
+    // Further announcements are ignored while checking. Devices that are not
+    // supported stay ignored, the others are checked again next time.
+    this.checkedUsns.push(usn)
+    let tv: SamsungTV | null
+    try {
+      tv = await checkDevice(
+        { USN: usn, LOCATION: location },
+        address,
+        this.config as SamsungPlatformConfig,
+      )
+    } catch (err) {
+      this.checkedUsns.splice(this.checkedUsns.indexOf(usn), 1)
+      this.log.debug(`Could not check the announced device ${usn}`, err.message)
+      return
+    }
+    if (!tv || this.getDevice(tv.usn)) {
+      return
+    }
+    const device: DeviceConfig = {
+      ...getDeviceConfig(tv),
+      discovered: true,
+    }
+    const mainTVAgentLocation = this.mainTVAgentLocations[address]
+    if (mainTVAgentLocation) {
+      try {
+        Object.assign(
+          device,
+          await this.getMainTVAgent(device, mainTVAgentLocation),
+        )
+      } catch (err) {
+        this.log.debug(
+          `${device.name} - Could not check MainTVAgent2 capabilities`,
+          err,
+        )
+      }
+    }
+    let storedDevices: Array<DeviceConfig> = await storage.getItem(DEVICES_KEY)
+    if (!Array.isArray(storedDevices)) {
+      storedDevices = []
+    }
+    await storage.updateItem(DEVICES_KEY, [...storedDevices, device])
+    const [configuredDevice] = await this.applyConfig([device])
+    this.devices.push(configuredDevice)
+    if (!configuredDevice.ignore) {
+      await this.setupDevice(configuredDevice)
+    }
+  }
+
+  /**
+   * Adds the MainTVAgent2 to the TV at the address. The MainTVServer2
+   * announces itself as a separate device.
+   */
+  private async handleMainTVServer(location: string, address: string) {
+    this.mainTVAgentLocations[address] = location
+    const device = this.devices.find((d) => d.lastKnownIp === address)
+    if (!device || device.mainTVAgentLocation === location) {
+      return
+    }
+    const changes = await this.getMainTVAgent(device, location)
+    this.log.debug(`${device.name} - Found the MainTVAgent2 at ${location}`)
+    await this.updateStoredDevice(device.usn, () => changes)
+  }
+
+  private async getMainTVAgent(device: DeviceConfig, location: string) {
+    const actions = await getActions(location)
+    return {
+      mainTVAgentLocation: location,
+      capabilities: mergeCapabilities(device.capabilities, actions),
+    }
+  }
+
+  /**
+   * Pairs and registers a device that was found after the start
+   */
+  private async setupDevice(device: DeviceConfig) {
+    await this.checkDevicePairing([device])
+    await this.updateInstalledApps(device)
+    await this.updateChannels(device)
+    await this.updateSources(device)
+    // It might have been registered by the rediscovery in the meantime
+    if (this.getAccessory(device.usn)) {
+      return
+    }
+    this.logDevice(device)
+    this.registerTV(device.usn)
+  }
+
+  /**
+   * Log devices so that the user knows how to configure them
+   */
+  private logDevice(device: DeviceConfig) {
+    this.log.info(
+      chalk`Found device {blue ${device.name}} (${device.modelName}), usn: {green ${device.usn}}`,
+    )
+    this.log.debug(
+      `${device.name} - (ip: ${device.lastKnownIp}, mac: ${device.mac})`,
+    )
+  }
+
   /**
    * Invokes pairing for all discovered devices.
    */
@@ -175,24 +761,103 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     for (const device of devices) {
       // Try pairing if the device was actually discovered and not paired already
       if (!device.ignore && device.discovered) {
-        try {
-          const token = await remote.getPairing(device, this.log)
-          if (token) {
-            this.log.debug(
-              `Found pairing token "${token}" for "${device.name}" (${device.modelName}), usn: "${device.usn}".`,
-            )
-          }
-        } catch (err) {
-          this.log.warn(
-            `Did not receive pairing token. Either you did not click "Allow" in time or your TV might not be supported.` +
-              `You might just want to restart homebridge and retry.`,
-          )
-        }
+        await this.pairDevice(device)
       }
     }
     return devices
   }
 
+  /**
+   * Asks websocket TV's for a token and stores it. After failed
+   * requests the TV is only asked again after a while.
+   */
+  private async pairDevice(device: DeviceConfig) {
+    if (device.token) {
+      this.log.debug(
+        `Found pairing token "${device.token}" for "${device.name}" (${device.modelName}), usn: "${device.usn}".`,
+      )
+      return
+    }
+    const request = this.tokenRequests[device.usn] || {
+      last: 0,
+      failures: 0,
+      pending: false,
+    }
+    this.tokenRequests[device.usn] = request
+    const interval = Math.min(
+      TOKEN_REQUEST_INTERVAL * 2 ** Math.max(request.failures - 1, 0),
+      MAX_TOKEN_REQUEST_INTERVAL,
+    )
+    if (
+      request.pending ||
+      request.tokenless ||
+      (request.failures && Date.now() - request.last < interval)
+    ) {
+      return
+    }
+    request.pending = true
+    try {
+      const token = await remote.getPairing(device, this.log)
+      if (token) {
+        request.failures = 0
+        device.token = token
+        await this.updateStoredDevice(device.usn, () => ({ token }))
+        this.log.info(`${device.name} - Received a pairing token`)
+      }
+    } catch (err) {
+      if (err instanceof NoTokenError) {
+        request.failures = 0
+        request.tokenless = true
+        this.log.info(
+          `${device.name} - The TV accepts the remote without a pairing token`,
+        )
+        return
+      }
+      request.failures++
+      request.last = Date.now()
+      const nextInterval = Math.min(
+        TOKEN_REQUEST_INTERVAL * 2 ** (request.failures - 1),
+        MAX_TOKEN_REQUEST_INTERVAL,
+      )
+      this.log.warn(
+        `${device.name} - Did not receive a pairing token. Either you did not click "Allow" in time or your TV might not be supported. ` +
+          `Asking again in ${Math.round(nextInterval / 1000 / 60)} minutes.`,
+        err.message,
+      )
+    } finally {
+      request.pending = false
+    }
+  }
+
+  /**
+   * Drops a stored token the TV doesn't accept anymore and asks for a new one
+   */
+  private async handleRejectedToken(usn: string) {
+    const device = this.getDevice(usn)
+    if (!device || !device.token) {
+      return
+    }
+    if (this.getConfiguredToken(usn) === device.token) {
+      // Every connect attempt is rejected, so only tell once
+      const key = `${usn}|${device.token}`
+      if (this.rejectedConfigTokens.indexOf(key) !== -1) {
+        return
+      }
+      this.rejectedConfigTokens.push(key)
+      this.log.warn(
+        `${device.name} - The TV rejected the token of your config. Please pair it again and update the token.`,
+      )
+      return
+    }
+    this.log.warn(
+      chalk`${device.name} - The TV rejected the stored pairing token "{yellow ${device.token}}", usn: "${usn}". ` +
+        `It was removed and a new one is requested, please click "Allow" on your TV when asked.`,
+    )
+    device.token = undefined
+    await this.updateStoredDevice(usn, () => ({ token: undefined }))
+    await this.pairDevice(device)
+  }
+
   /**
    * Adds the user modifications to each of devices
    */
@@ -222,11 +887,55 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     return devices
   }
 
+  /**
+   * Stores tokens the TV handed out on connect. Tokens of the config win.
+   */
+  private async handleChangedToken(usn: string, token: string) {
+    const device = this.getDevice(usn)
+    if (!device || device.token === token) {
+      return
+    }
+    if (this.getConfiguredToken(usn)) {
+      // The TV hands it out on every connect, so only tell once
+      if (this.changedConfigTokens.indexOf(usn) !== -1) {
+        return
+      }
+      this.changedConfigTokens.push(usn)
+      this.log.info(
+        chalk`${device.name} - The TV handed out a new token. Update the token in your config to {green ${token}} if it keeps asking to allow the remote.`,
+      )
+      return
+    }
+    this.log.debug(`${device.name} - Storing the new token "${token}"`)
+    await this.updateStoredDevice(usn, () => ({ token }))
+  }
+
+  private getConfiguredToken(usn: string) {
+    const configDevices = (this.config as SamsungPlatformConfig).devices || []
+    const configDevice = configDevices.find((d) => d.usn === usn)
+    return configDevice ? configDevice.token : undefined
+  }
+
+  private needsToken(device: DeviceConfig) {
+    const request = this.tokenRequests[device.usn]
+    return (
+      !device.token &&
+      !device.ignore &&
+      !(request && request.tokenless) &&
+      getDeviceProfile(device.modelName).pairing === `token`
+    )
+  }
+
   private getDevice(usn) {
     const device = this.devices.find((d) => d.usn === usn)
     return device as DeviceConfig
   }
 
+  private getAccessory(usn: string) {
+    const uuid = this.api.hap.uuid.generate(usn)
+    return this.tvAccessories.find((a) => a.UUID === uuid)
+  }
+
   private registerTV(usn: string) {
     const device = this.getDevice(usn)
     if (!device || device.ignore) {
@@ -236,8 +945,12 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     // generate a UUID
     const uuid = this.api.hap.uuid.generate(device.usn)
 
-    // create the accessory
-    const tvAccessory = new this.api.platformAccessory(device.name, uuid)
+    // restore the cached accessory or create a new one
+    const cachedAccessory = device.bridged
+      ? this.cachedAccessories.find((a) => a.UUID === uuid)
+      : undefined
+    const tvAccessory =
+      cachedAccessory || new this.api.platformAccessory(device.name, uuid)
     tvAccessory.context = device
 
     this.tvAccessories.push(tvAccessory)
@@ -249,7 +962,9 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     tvAccessory.category = this.api.hap.Categories.TELEVISION
 
     // add the tv service
-    const tvService = tvAccessory.addService(this.Service.Television)
+    const tvService =
+      tvAccessory.getService(this.Service.Television) ||
+      tvAccessory.addService(this.Service.Television)
     // set the tv name, manufacturer etc.
     tvService.setCharacteristic(this.Characteristic.ConfiguredName, tvName)
 
@@ -300,23 +1015,46 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
         } catch (err) {
           this.log.warn(`${tvName} - Could not update active state`)
           callback(err)
+          return
+        }
+        // Check if the TV actually woke up
+        if (!newValue) {
+          return
+        }
+        try {
+          const isActive = await remote.waitForActive(this.getDevice(usn))
+          if (!isActive) {
+            this.log.warn(
+              getDeviceProfile(device.modelName).wakeOnLan
+                ? `${tvName} - Did not turn on. Check if Wake-on-LAN is enabled on your TV and if the broadcast address is correct.`
+                : `${tvName} - Did not turn on. TVs of this age usually can't be turned on over the network.`,
+            )
+            tvService
+              .getCharacteristic(this.Characteristic.Active)
+              .updateValue(new Error(`${tvName} did not turn on`))
+          }
+        } catch (err) {
+          this.log.warn(`${tvName} - Could not check if the TV turned on`, err)
         }
       })
 
-    // Update the active state every 15 seconds
+    // Regularly update the active state
     setInterval(async () => {
       let newState = this.Characteristic.Active.ACTIVE
       try {
         const isActive = await remote.getActive(this.getDevice(usn))
         if (!isActive) {
           newState = this.Characteristic.Active.INACTIVE
+        } else if (this.needsToken(this.getDevice(usn))) {
+          // Pair TV's that were off when they were discovered
+          this.pairDevice(this.getDevice(usn))
         }
       } catch (err) {
         newState = this.Characteristic.Active.INACTIVE
       }
       // this.log.debug('Polled tv active state', newState);
       tvService.updateCharacteristic(this.Characteristic.Active, newState)
-    }, 1000 * 15)
+    }, this.activePollInterval)
 
     const canGetBrightness = hasCapability(device, `GetBrightness`)
     const canSetBrightness = hasCapability(device, `SetBrightness`)
@@ -353,11 +1091,45 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
         })
     }
 
+    // Keys that were remapped in the config
+    const remoteKeyMap: {
+      [key: number]: { name: string; steps: Array<MacroStep> }
+    } = {}
+    const configuredKeyMap = device.remoteKeyMap || {}
+    for (const name of Object.keys(configuredKeyMap)) {
+      if (REMOTE_KEYS.indexOf(name as RemoteKeyName) === -1) {
+        this.log.warn(`${tvName} - Ignoring unknown remote key "${name}"`)
+        continue
+      }
+      try {
+        remoteKeyMap[this.Characteristic.RemoteKey[name]] = {
+          name,
+          steps: parseMacro(configuredKeyMap[name], device.installedApps),
+        }
+      } catch (err) {
+        this.log.warn(
+          `${tvName} - Ignoring mapping of remote key "${name}" - ${err.message}`,
+        )
+      }
+    }
+
+    // Samsung remotes don't have a play / pause key so the state is tracked here
+    let playing = false
+
     // handle remote control input
     tvService
       .getCharacteristic(this.Characteristic.RemoteKey)
       .on(`set`, async (newValue, callback) => {
         try {
+          const mappedKey = remoteKeyMap[newValue as number]
+          if (mappedKey) {
+            this.log.debug(
+              `${tvName} - SET Remote Key Pressed: ${mappedKey.name} (remapped)`,
+            )
+            await remote.runMacro(this.getDevice(usn), mappedKey.steps)
+            callback(null)
+            return
+          }
           switch (newValue) {
             case this.Characteristic.RemoteKey.REWIND: {
               this.log.debug(`${tvName} - SET Remote Key Pressed: REWIND`)
@@ -371,12 +1143,14 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
             }
             case this.Characteristic.RemoteKey.NEXT_TRACK: {
               this.log.debug(`${tvName} - SET Remote Key Pressed: NEXT_TRACK`)
+              await remote.nextTrack(this.getDevice(usn))
               break
             }
             case this.Characteristic.RemoteKey.PREVIOUS_TRACK: {
               this.log.debug(
                 `${tvName} - SET Remote Key Pressed: PREVIOUS_TRACK`,
               )
+              await remote.previousTrack(this.getDevice(usn))
               break
             }
             case this.Characteristic.RemoteKey.ARROW_UP: {
@@ -416,6 +1190,8 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
             }
             case this.Characteristic.RemoteKey.PLAY_PAUSE: {
               this.log.debug(`${tvName} - SET Remote Key Pressed: PLAY_PAUSE`)
+              await remote.playPause(this.getDevice(usn), !playing)
+              playing = !playing
               break
             }
             case this.Characteristic.RemoteKey.INFORMATION: {
@@ -434,9 +1210,9 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     /**
      * Create a speaker service to allow volume control
      */
-    const speakerService = tvAccessory.addService(
-      this.Service.TelevisionSpeaker,
-    )
+    const speakerService =
+      tvAccessory.getService(this.Service.TelevisionSpeaker) ||
+      tvAccessory.addService(this.Service.TelevisionSpeaker)
 
     /**
      * We have these scenarios
@@ -570,11 +1346,40 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
 
     tvService.addLinkedService(speakerService)
 
-    const inputSources = [
+    // Push volume, mute and brightness changes made on the TV itself
+    this.renderingControlEvents.subscribe(
+      usn,
+      device.lastKnownLocation,
+      ({ volume, mute, brightness }) => {
+        this.log.debug(`${tvName} - RenderingControl event`, {
+          volume,
+          mute,
+          brightness,
+        })
+        if (typeof volume === `number` && canGetVolume) {
+          speakerService.updateCharacteristic(
+            this.Characteristic.Volume,
+            volume,
+          )
+        }
+        if (typeof mute === `boolean`) {
+          speakerService.updateCharacteristic(this.Characteristic.Mute, mute)
+        }
+        if (typeof brightness === `number` && canGetBrightness) {
+          tvService.updateCharacteristic(
+            this.Characteristic.Brightness,
+            brightness,
+          )
+        }
+      },
+    )
+
+    const inputSources: Array<InputSource> = [
       { label: `-`, type: this.Characteristic.InputSourceType.OTHER },
       {
         label: `TV`,
         type: this.Characteristic.InputSourceType.TUNER,
+        source: `TV`,
         fn: remote.openTV,
       },
     ]
@@ -582,40 +1387,233 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
     const { inputs = [] } = device
     for (const cInput of inputs) {
       // Opening apps
-      if (APPS[cInput.keys]) {
+      const app = parseApp(cInput.keys, device.installedApps)
+      if (app) {
+        const fallbackKeys = cInput.fallback
+          ? parseKeys({ ...cInput, keys: cInput.fallback }, device, this.log)
+          : []
+        if (!remote.supportsApps(device) && !fallbackKeys.length) {
+          this.log.warn(
+            `${tvName} - Input "${cInput.name}" won't work since this TV can't open apps. Add "fallback" keys to open it with the remote instead.`,
+          )
+        }
         sources.push({
           label: cInput.name,
           type: this.Characteristic.InputSourceType.APPLICATION,
+          appId: app.appId,
           fn: async (config: DeviceConfig) => {
-            await remote.openApp(config, APPS[cInput.keys])
+            if (!remote.supportsApps(config) && fallbackKeys.length) {
+              await remote.sendKeys(config, fallbackKeys as KEYS[])
+              return
+            }
+            await remote.openApp(config, app.appId, app.metaTag)
           },
         })
         continue
       }
-      // Sending keys
-      const keys = parseKeys(cInput, device, this.log)
-      const type =
-        keys.length === 1 && /^KEY_HDMI[0-4]?$/.test(keys[0])
-          ? this.Characteristic.InputSourceType.HDMI
-          : this.Characteristic.InputSourceType.OTHER
+      // Sending keys and running macros
+      let steps: Array<MacroStep>
+      try {
+        steps = parseMacro(cInput.keys, device.installedApps)
+      } catch (err) {
+        this.log.warn(
+          `${tvName} - Ignoring input "${cInput.name}" - ${err.message}`,
+        )
+        continue
+      }
+      const [firstStep] = steps
+      const hdmiMatch =
+        steps.length === 1 && firstStep.type === `key`
+          ? /^KEY_HDMI([1-4])?$/.exec(firstStep.key)
+          : null
+      // Switch to the exact HDMI source if possible instead of sending the key
+      const source =
+        hdmiMatch && hdmiMatch[1] ? `HDMI${hdmiMatch[1]}` : undefined
       sources.push({
         label: cInput.name,
-        type,
+        type: hdmiMatch
+          ? this.Characteristic.InputSourceType.HDMI
+          : this.Characteristic.InputSourceType.OTHER,
+        source,
+        fn: async (config: DeviceConfig) => {
+          if (source && (await remote.setSource(config, source))) {
+            return
+          }
+          await remote.runMacro(config, steps)
+        },
+      })
+    }
+    // Channels of the tuner
+    const { showChannels, channels = [] } = device
+    for (const channel of showChannels ? channels : []) {
+      if (sources.some((s) => s.label === channel.name)) {
+        continue
+      }
+      sources.push({
+        label: channel.name,
+        type: this.Characteristic.InputSourceType.TUNER,
         fn: async (config: DeviceConfig) => {
-          await remote.sendKeys(config, keys as KEYS[])
+          await remote.setChannel(config, channel)
         },
       })
     }
+    // Sources the TV reported which are not configured as inputs already
+    const { showSources, sourceList = [] } = device
+    for (const tvSource of showSources ? sourceList : []) {
+      if (
+        sources.some(
+          (s) =>
+            s.label === tvSource.name ||
+            (!!s.source && isSourceType(tvSource, s.source)),
+        )
+      ) {
+        continue
+      }
+      const [sourceType] = tvSource.type.split(`/`)
+      sources.push({
+        label: tvSource.name,
+        type: this.getInputSourceType(tvSource.type),
+        source: sourceType,
+        fn: async (config: DeviceConfig) => {
+          if (!(await remote.setSource(config, sourceType))) {
+            throw new Error(`Could not switch to ${tvSource.name}`)
+          }
+        },
+      })
+    }
+    // Apps installed on the TV which are not configured as inputs already
+    const { installedApps = [], includeApps, excludeApps } = device
+    for (const app of filterApps(installedApps, includeApps, excludeApps)) {
+      if (sources.some((s) => s.appId === app.appId || s.label === app.name)) {
+        continue
+      }
+      sources.push({
+        label: app.name,
+        type: this.Characteristic.InputSourceType.APPLICATION,
+        appId: app.appId,
+        installed: true,
+        fn: async (config: DeviceConfig) => {
+          await remote.openApp(config, app.appId)
+        },
+      })
+    }
+
+    // The input source that was selected last and the one that is assumed to be active
+    let selectedIdentifier = 0
+    let activeIdentifier = 0
+    const setActiveIdentifier = (identifier: number) => {
+      activeIdentifier = identifier
+      tvService.updateCharacteristic(
+        this.Characteristic.ActiveIdentifier,
+        identifier,
+      )
+    }
+
+    /**
+     * Hides the sources that are not connected and returns
+     * the identifier of the active one or -1 if it's unknown
+     */
+    const updateSourceStates = async (config: DeviceConfig) => {
+      if (!sources.some((s) => !!s.source)) {
+        return -1
+      }
+      const sourceStates = await remote.getSources(config)
+      if (!sourceStates) {
+        return -1
+      }
+      const { inputStates = {} } = config
+      let identifier = -1
+      sources.forEach(({ label, source }, i) => {
+        const state =
+          source && sourceStates.find((s) => isSourceType(s, source))
+        const inputService = tvAccessory.getServiceById(
+          this.Service.InputSource,
+          label,
+        )
+        if (!state || !inputService) {
+          return
+        }
+        const { hidden = false } = inputStates[label] || {}
+        inputService.updateCharacteristic(
+          this.Characteristic.CurrentVisibilityState,
+          hidden || !state.connected
+            ? this.Characteristic.CurrentVisibilityState.HIDDEN
+            : this.Characteristic.CurrentVisibilityState.SHOWN,
+        )
+        if (state.active) {
+          identifier = i
+        }
+      })
+      return identifier
+    }
 
-    // Set current input source to 0 = tv
-    tvService.updateCharacteristic(this.Characteristic.ActiveIdentifier, 0)
+    /**
+     * Tizen TV's tell which app is in the foreground and older ones which
+     * source is active. For everything else the input source that was
+     * selected last is assumed to be active.
+     */
+    const updateActiveIdentifier = async () => {
+      const config = this.getDevice(usn)
+      const sourceIdentifier = await updateSourceStates(config)
+      // Every app costs a request, so only the configured apps and the
+      // selected one are checked, the selected one first
+      const selectedSource = sources[selectedIdentifier]
+      const appIds = [
+        ...(selectedSource && selectedSource.appId
+          ? [selectedSource.appId]
+          : []),
+        ...sources
+          .filter((s) => !!s.appId && !s.installed)
+          .map((s) => s.appId as string),
+      ].filter((id, i, all) => all.indexOf(id) === i)
+      const checkApps = appIds.length > 0 && remote.supportsRestApi(config)
+      if (!checkApps && sourceIdentifier === -1) {
+        return
+      }
+      let appId: string | null = null
+      if (checkApps) {
+        appId = await remote.getForegroundApp(config, appIds)
+      }
+      let identifier = selectedIdentifier
+      if (appId) {
+        identifier = sources.findIndex((s) => s.appId === appId)
+        selectedIdentifier = identifier
+      } else if (sourceIdentifier !== -1) {
+        // A channel or macro that was selected last is most likely still active
+        const selected = sources[selectedIdentifier]
+        const keepSelected =
+          sources[sourceIdentifier].source === `TV` &&
+          selectedIdentifier !== 0 &&
+          !selected.source &&
+          !selected.appId
+        if (!keepSelected) {
+          identifier = sourceIdentifier
+          selectedIdentifier = identifier
+        }
+      } else if (sources[selectedIdentifier].appId) {
+        // The app was closed so the actual input source is unknown
+        identifier = 0
+      }
+      if (identifier !== activeIdentifier) {
+        this.log.debug(
+          `${tvName} - Active Identifier changed to ${identifier} (${sources[identifier].label})`,
+        )
+        setActiveIdentifier(identifier)
+      }
+    }
+
+    // Set current input source to 0 = unknown
+    setActiveIdentifier(0)
     // handle input source changes
-    let resetActiveIdentifierTimer: NodeJS.Timeout
+    let updateActiveIdentifierTimer: NodeJS.Timeout
     tvService
       .getCharacteristic(this.Characteristic.ActiveIdentifier)
+      .on(`get`, (callback) => {
+        callback(null, activeIdentifier)
+      })
       .on(`set`, async (newValue, callback) => {
         // Clear old timeout if not cleared already
-        clearTimeout(resetActiveIdentifierTimer)
+        clearTimeout(updateActiveIdentifierTimer)
 
         // the value will be the value you set for the Identifier Characteristic
         // on the Input Source service that was selected - see input sources below.
@@ -627,51 +1625,166 @@ export class SamsungTVHomebridgePlatform implements DynamicPlatformPlugin {
           if (typeof inputSource.fn === `function`) {
             await inputSource.fn(this.getDevice(usn))
           }
-          tvService.updateCharacteristic(
-            this.Characteristic.ActiveIdentifier,
-            newValue,
-          )
+          selectedIdentifier = newValue as number
+          setActiveIdentifier(selectedIdentifier)
         } catch (err) {
           callback(err)
           return
         }
-        // Switch back to "TV" input source after 3 seconds
-        resetActiveIdentifierTimer = setTimeout(() => {
-          tvService.updateCharacteristic(
-            this.Characteristic.ActiveIdentifier,
-            0,
-          )
+        // Check if e.g. the app actually started after 3 seconds
+        updateActiveIdentifierTimer = setTimeout(async () => {
+          try {
+            await updateActiveIdentifier()
+          } catch (err) {
+            this.log.debug(`${tvName} - Could not check active identifier`)
+          }
         }, 3000)
         callback(null)
       })
 
+    // Follow input source changes made with the physical remote
+    setInterval(async () => {
+      const isActive =
+        tvService.getCharacteristic(this.Characteristic.Active).value ===
+        this.Characteristic.Active.ACTIVE
+      if (!isActive) {
+        return
+      }
+      try {
+        await updateActiveIdentifier()
+      } catch (err) {
+        this.log.debug(`${tvName} - Could not check active identifier`)
+      }
+    }, 1000 * 15)
+
+    // Remove cached input sources that are not configured anymore
+    const subtypes = sources.map(({ label }) => label)
+    for (const service of [...tvAccessory.services]) {
+      if (
+        service.UUID === this.Service.InputSource.UUID &&
+        subtypes.indexOf(service.subtype as string) === -1
+      ) {
+        tvAccessory.removeService(service)
+      }
+    }
+
+    const { inputStates = {} } = device
     for (let i = 0; i < sources.length; ++i) {
       const { label, type } = sources[i]
-      const inputService = tvAccessory.addService(
-        this.Service.InputSource,
-        /* `input-${i}` */ label,
-        label,
-      )
+      const { name = label, hidden = false } = inputStates[label] || {}
+      const visibility = hidden
+        ? this.Characteristic.CurrentVisibilityState.HIDDEN
+        : this.Characteristic.CurrentVisibilityState.SHOWN
+      const inputService =
+        tvAccessory.getServiceById(this.Service.InputSource, label) ||
+        tvAccessory.addService(
+          this.Service.InputSource,
+          /* `input-${i}` */ label,
+          label,
+        )
       inputService
         .setCharacteristic(this.Characteristic.Identifier, i)
-        .setCharacteristic(this.Characteristic.ConfiguredName, label)
+        .setCharacteristic(this.Characteristic.ConfiguredName, name)
         .setCharacteristic(
           this.Characteristic.IsConfigured,
           this.Characteristic.IsConfigured.CONFIGURED,
         )
         .setCharacteristic(
           this.Characteristic.CurrentVisibilityState,
-          this.Characteristic.CurrentVisibilityState.SHOWN,
+          visibility,
+        )
+        .setCharacteristic(
+          this.Characteristic.TargetVisibilityState,
+          visibility,
         )
         .setCharacteristic(this.Characteristic.InputSourceType, type)
+
+      // Keep the changes made in the home app
+      inputService
+        .getCharacteristic(this.Characteristic.ConfiguredName)
+        .on(`set`, async (newValue, callback) => {
+          this.log.debug(
+            `${tvName} - SET ConfiguredName of ${label} => ${newValue}`,
+          )
+          callback(null)
+          await this.saveInputState(usn, label, { name: newValue as string })
+        })
+      inputService
+        .getCharacteristic(this.Characteristic.TargetVisibilityState)
+        .on(`set`, async (newValue, callback) => {
+          this.log.debug(
+            `${tvName} - SET TargetVisibilityState of ${label} => ${newValue}`,
+          )
+          const isHidden =
+            newValue === this.Characteristic.TargetVisibilityState.HIDDEN
+          inputService.updateCharacteristic(
+            this.Characteristic.CurrentVisibilityState,
+            isHidden
+              ? this.Characteristic.CurrentVisibilityState.HIDDEN
+              : this.Characteristic.CurrentVisibilityState.SHOWN,
+          )
+          callback(null)
+          await this.saveInputState(usn, label, { hidden: isHidden })
+        })
       tvService.addLinkedService(inputService)
     }
 
-    /**
-     * Publish as external accessory
-     * Only one TV can exist per bridge, to bypass this limitation, you should
-     * publish your TV as an external accessory.
-     */
-    this.api.publishExternalAccessories(PLUGIN_NAME, [tvAccessory])
+    // Switches that run macros so that they can be used in scenes and automations
+    const macros: Array<{ name: string; steps: Array<MacroStep> }> = []
+    for (const { name, keys } of device.macros || []) {
+      try {
+        macros.push({ name, steps: parseMacro(keys, device.installedApps) })
+      } catch (err) {
+        this.log.warn(`${tvName} - Ignoring macro "${name}" - ${err.message}`)
+      }
+    }
+    const macroSubtypes = macros.map(({ name }) => `macro-${name}`)
+    for (const service of [...tvAccessory.services]) {
+      if (
+        service.UUID === this.Service.Switch.UUID &&
+        macroSubtypes.indexOf(service.subtype as string) === -1
+      ) {
+        tvAccessory.removeService(service)
+      }
+    }
+    for (const { name, steps } of macros) {
+      const subtype = `macro-${name}`
+      const switchService =
+        tvAccessory.getServiceById(this.Service.Switch, subtype) ||
+        tvAccessory.addService(this.Service.Switch, name, subtype)
+      switchService.setCharacteristic(this.Characteristic.On, false)
+      switchService
+        .getCharacteristic(this.Characteristic.On)
+        .on(`set`, async (newValue, callback) => {
+          // Macros might take longer than HomeKit waits for an answer
+          callback(null)
+          if (!newValue) {
+            return
+          }
+          this.log.debug(`${tvName} - Running macro "${name}"`)
+          try {
+            await remote.runMacro(this.getDevice(usn), steps)
+          } catch (err) {
+            this.log.warn(`${tvName} - Could not run macro "${name}"`, err)
+          }
+          switchService.updateCharacteristic(this.Characteristic.On, false)
+        })
+      tvService.addLinkedService(switchService)
+    }
+
+    if (!device.bridged) {
+      /**
+       * Publish as external accessory
+       * Only one TV can exist per bridge, to bypass this limitation, you should
+       * publish your TV as an external accessory.
+       */
+      this.api.publishExternalAccessories(PLUGIN_NAME, [tvAccessory])
+    } else if (cachedAccessory) {
+      this.api.updatePlatformAccessories([tvAccessory])
+    } else {
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [
+        tvAccessory,
+      ])
+    }
   }
 }
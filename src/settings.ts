@@ -7,3 +7,8 @@ export const PLATFORM_NAME = `SamsungTVControl`
  * This must match the name of your plugin as defined the package.json
  */
 export const PLUGIN_NAME = `homebridge-samsungtv-control`
+
+/**
+ * Key of the discovered devices in the node-persist storage
+ */
+export const DEVICES_KEY = `${PLATFORM_NAME}_devices`
@@ -12,6 +12,62 @@ export type UPNPCapability =
 export interface Input {
   name: string
   keys: string
+  /**
+   * Keys to send instead of opening an app on TVs that can't open apps
+   */
+  fallback?: string
+}
+/**
+ * Keys of the remote in the iOS control center
+ */
+export type RemoteKeyName =
+  | `REWIND`
+  | `FAST_FORWARD`
+  | `NEXT_TRACK`
+  | `PREVIOUS_TRACK`
+  | `ARROW_UP`
+  | `ARROW_DOWN`
+  | `ARROW_LEFT`
+  | `ARROW_RIGHT`
+  | `SELECT`
+  | `BACK`
+  | `EXIT`
+  | `PLAY_PAUSE`
+  | `INFORMATION`
+
+export interface InstalledApp {
+  appId: string
+  name: string
+  type: number
+}
+
+export interface Channel {
+  /**
+   * Number to type on the remote e.g. `7` or `10-1`
+   */
+  number: string
+  name: string
+  /**
+   * Channel xml of the MainTVAgent2 service to switch to it via upnp
+   */
+  upnp?: string
+}
+
+/**
+ * Source like `HDMI1` of the MainTVAgent2 service
+ */
+export interface TVSource {
+  type: string
+  id: number
+  name: string
+}
+
+/**
+ * Changes made to an input source in the home app
+ */
+export interface InputState {
+  name?: string
+  hidden?: boolean
 }
 export interface DeviceConfig {
   name: string
@@ -19,12 +75,38 @@ export interface DeviceConfig {
   mac: string
   lastKnownLocation: string
   lastKnownIp: string
+  /**
+   * Location of the MainTVServer2 device which offers the MainTVAgent2 service
+   */
+  mainTVAgentLocation?: string
   usn: string
   delay: number
   ignore?: boolean
   remoteControlPort?: number
+  wolBroadcastAddress?: string
+  wolPort?: number
+  powerOnTimeout?: number
   token?: string
   inputs?: Array<Input>
+  macros?: Array<Input>
+  /**
+   * Keys or macros to send instead of the defaults
+   */
+  remoteKeyMap?: { [key in RemoteKeyName]?: string }
+  showInstalledApps?: boolean
+  includeApps?: Array<string>
+  excludeApps?: Array<string>
+  installedApps?: Array<InstalledApp>
+  showChannels?: boolean
+  /**
+   * Path to a M3U or CSV file, the TV's channel list is used when not set
+   */
+  channelList?: string
+  channels?: Array<Channel>
+  showSources?: boolean
+  sourceList?: Array<TVSource>
+  inputStates?: { [subtype: string]: InputState }
+  bridged?: boolean
   disableUpnpSetters?: boolean
   discovered?: boolean
   capabilities: Array<UPNPCapability>
@@ -33,4 +115,32 @@ export interface DeviceConfig {
 export interface SamsungPlatformConfig {
   platform: typeof PLATFORM_NAME
   devices: Array<DeviceConfig>
+  /**
+   * Ip addresses or CIDR ranges of TV's that can't be reached via multicast
+   */
+  unicastHosts?: Array<string>
+  /**
+   * Urls of device descriptions e.g. `http://10.0.20.5:9197/dmr`
+   */
+  locations?: Array<string>
+  /**
+   * Time in ms to wait for answers of the upnp discovery
+   */
+  discoveryDuration?: number
+  /**
+   * Additional search targets (ST) for the upnp discovery
+   */
+  searchTargets?: Array<string>
+  /**
+   * Name or ip address of the network interface to discover TV's on
+   */
+  discoveryInterface?: string
+  /**
+   * How often the search requests are repeated
+   */
+  discoveryRetransmits?: number
+  /**
+   * Listen for TV's announcing that they joined or left the network
+   */
+  passiveDiscovery?: boolean
 }
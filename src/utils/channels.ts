@@ -0,0 +1,113 @@
+import path from 'path'
+import { KEYS } from 'samsung-tv-control'
+import { Channel } from '../types/deviceConfig'
+import { getTag } from './xml'
+
+/**
+ * MainTVAgent2 uses 65534 for channels without minor number
+ */
+const NO_MINOR_CHANNEL = `65534`
+
+/**
+ * Parses a `<Channel>` of the MainTVAgent2 service
+ */
+export const parseChannelXml = (xml: string): Channel | null => {
+  const major = getTag(xml, `MajorCh`)
+  const minor = getTag(xml, `MinorCh`)
+  const number =
+    getTag(xml, `DispNo`) ||
+    (major && minor && minor !== NO_MINOR_CHANNEL ? `${major}-${minor}` : major)
+  if (!number) {
+    return null
+  }
+  return {
+    number,
+    name: getTag(xml, `ChName`) || getTag(xml, `DispName`) || number,
+    upnp: xml.trim(),
+  }
+}
+
+/**
+ * Parses the (unescaped) channel list of the MainTVAgent2 service
+ */
+export const parseChannelList = (xml: string) => {
+  const channels: Array<Channel> = []
+  const re = /<Channel>[\s\S]*?<\/Channel>/g
+  let match: RegExpExecArray | null
+  while ((match = re.exec(xml))) {
+    const channel = parseChannelXml(match[0])
+    if (channel) {
+      channels.push(channel)
+    }
+  }
+  return channels
+}
+
+/**
+ * Parses playlists with entries like `#EXTINF:-1 tvg-chno="1",Das Erste HD`.
+ * Entries without channel number are numbered by their position.
+ */
+export const parseM3U = (contents: string) => {
+  const channels: Array<Channel> = []
+  for (const line of contents.split(/\r?\n/)) {
+    if (!line.startsWith(`#EXTINF:`)) {
+      continue
+    }
+    const numberMatch = /tvg-chno="([^"]+)"/.exec(line)
+    const nameIdx = line.lastIndexOf(`,`)
+    const name = nameIdx !== -1 ? line.slice(nameIdx + 1).trim() : ``
+    const number = numberMatch
+      ? numberMatch[1].trim()
+      : `${channels.length + 1}`
+    channels.push({ number, name: name || number })
+  }
+  return channels
+}
+
+/**
+ * Parses lines of `number,name` (or separated by `;`),
+ * a header line is skipped
+ */
+export const parseCSV = (contents: string) => {
+  const channels: Array<Channel> = []
+  for (const line of contents.split(/\r?\n/)) {
+    const match = /^\s*"?([0-9]+(?:[-.][0-9]+)?)"?\s*[,;]\s*"?(.*?)"?\s*$/.exec(
+      line,
+    )
+    if (match && match[2]) {
+      channels.push({ number: match[1].replace(`.`, `-`), name: match[2] })
+    }
+  }
+  return channels
+}
+
+/**
+ * Parses a channel list file by its extension
+ */
+export const parseChannelFile = (contents: string, filename: string) => {
+  const ext = path.extname(filename).toLowerCase()
+  if (ext === `.m3u` || ext === `.m3u8` || contents.startsWith(`#EXTM3U`)) {
+    return parseM3U(contents)
+  }
+  if (ext === `.csv` || ext === `.txt`) {
+    return parseCSV(contents)
+  }
+  throw new Error(`Unsupported channel list "${filename}"`)
+}
+
+/**
+ * Keys to type the channel number on the remote
+ */
+export const getChannelKeys = (number: string) => {
+  const keys: Array<KEYS> = []
+  for (const char of number) {
+    if (/[0-9]/.test(char)) {
+      keys.push(KEYS[`KEY_${char}`])
+    } else if (char === `-`) {
+      // The dash key for sub channels
+      keys.push(KEYS.KEY_PLUS100)
+    }
+  }
+  keys.push(KEYS.KEY_ENTER)
+  return keys
+}
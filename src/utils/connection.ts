@@ -0,0 +1,546 @@
+import WebSocket from 'ws'
+import { Samsung, KEYS } from 'samsung-tv-control'
+import HJSamsungTv from 'samsung-remote-pin-paired'
+import wait from './wait'
+
+export interface ConnectionOptions {
+  ip: string
+  mac: string
+  port: number
+  /**
+   * Name the TV shows for this remote. Tokens are bound to it.
+   */
+  name?: string
+  token?: string
+  /**
+   * Websocket TVs use wss on 8002 and plain ws on 8001
+   */
+  secure?: boolean
+  /**
+   * Identity of H/J-Series TVs that were paired with pin pairing
+   */
+  identity?: { [key: string]: any } | null
+  /**
+   * Called when the TV rejected the connection e.g. because of a revoked token
+   */
+  onUnauthorized?: () => void
+  /**
+   * Called when the TV hands out another token than the one that was used
+   */
+  onToken?: (token: string) => void
+}
+
+export interface ConnectionSettings {
+  /**
+   * Time in ms after which an unused session will be closed
+   */
+  idleTimeout: number
+  /**
+   * Time in ms to wait for a session to be established
+   */
+  connectTimeout: number
+  /**
+   * Number of reconnects before giving up
+   */
+  retries: number
+  /**
+   * Initial and maximum delay in ms between reconnects
+   */
+  backoff: number
+  maxBackoff: number
+}
+
+export interface RemoteSession {
+  readonly isOpen: boolean
+  /**
+   * Token the TV handed out when the connection was accepted
+   */
+  readonly token?: string
+  sendKey(key: KEYS): Promise<void>
+  /**
+   * Presses the key and releases it after `duration` ms
+   */
+  holdKey(key: KEYS, duration: number): Promise<void>
+  /**
+   * Emits an event to the TV and resolves with the data of its answer
+   */
+  emit(event: string, data?: unknown): Promise<unknown>
+  close(): void
+}
+
+interface Message {
+  event?: string
+  data?: unknown
+}
+
+/**
+ * Thrown when the TV didn't allow the remote to connect
+ */
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = `UnauthorizedError`
+  }
+}
+
+/**
+ * Thrown when the TV accepted the remote without handing out a token,
+ * e.g. on port 8001 which doesn't use tokens
+ */
+export class NoTokenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = `NoTokenError`
+  }
+}
+
+const DEFAULT_SETTINGS: ConnectionSettings = {
+  idleTimeout: 1000 * 30,
+  connectTimeout: 1000 * 5,
+  retries: 2,
+  backoff: 250,
+  maxBackoff: 1000 * 5,
+}
+
+/**
+ * Time in ms the user has to allow the remote on the TV
+ */
+const TOKEN_REQUEST_TIMEOUT = 1000 * 30
+
+/**
+ * Same name samsung-tv-control uses so that previously issued tokens stay valid
+ */
+const DEFAULT_NAME = `NodeJS Remote`
+
+/**
+ * Ids the H/J-Series identities are paired with
+ */
+export const HJ_APP_ID = `721b6fce-4ee6-48ba-8045-955a539edadb`
+export const HJ_USER_ID = `654321`
+
+/**
+ * Opens a websocket to the remote control channel and resolves
+ * once the TV accepted the connection
+ */
+const openWebsocketSession = (
+  options: ConnectionOptions,
+  settings: ConnectionSettings,
+) =>
+  new Promise<RemoteSession>((resolve, reject) => {
+    const { ip, port, token, secure = port !== 8001 } = options
+    const name = Buffer.from(options.name || DEFAULT_NAME).toString(`base64`)
+    const url =
+      `${
+        secure ? `wss` : `ws`
+      }://${ip}:${port}/api/v2/channels/samsung.remote.control?name=${name}` +
+      (token ? `&token=${token}` : ``)
+    const ws = new WebSocket(url, { rejectUnauthorized: false })
+    let connected = false
+    let listeners: Array<(message: Message) => void> = []
+    let sessionToken: string | undefined
+
+    const sendRemoteKey = (key: KEYS, cmd: `Click` | `Press` | `Release`) =>
+      new Promise<void>((res, rej) => {
+        const command = {
+          method: `ms.remote.control`,
+          params: {
+            Cmd: cmd,
+            DataOfCmd: key,
+            Option: `false`,
+            TypeOfRemote: `SendRemoteKey`,
+          },
+        }
+        ws.send(JSON.stringify(command), (err) => (err ? rej(err) : res()))
+      })
+
+    const session: RemoteSession = {
+      get isOpen() {
+        return connected && ws.readyState === WebSocket.OPEN
+      },
+      get token() {
+        return sessionToken
+      },
+      sendKey: (key: KEYS) => sendRemoteKey(key, `Click`),
+      holdKey: async (key: KEYS, duration: number) => {
+        await sendRemoteKey(key, `Press`)
+        await wait(duration)
+        await sendRemoteKey(key, `Release`)
+      },
+      emit: (event: string, data: unknown = ``) =>
+        new Promise<unknown>((res, rej) => {
+          const listener = (message: Message) => {
+            if (message.event === event) {
+              done()
+              res(message.data)
+            }
+          }
+          const done = () => {
+            clearTimeout(timeout)
+            listeners = listeners.filter((l) => l !== listener)
+          }
+          const timeout = setTimeout(() => {
+            done()
+            rej(new Error(`Timed out waiting for ${event}`))
+          }, settings.connectTimeout)
+          listeners.push(listener)
+          const command = {
+            method: `ms.channel.emit`,
+            params: { event, to: `host`, data },
+          }
+          ws.send(JSON.stringify(command), (err) => {
+            if (err) {
+              done()
+              rej(err)
+            }
+          })
+        }),
+      close: () => {
+        connected = false
+        ws.close()
+      },
+    }
+
+    const timer = setTimeout(() => {
+      ws.terminate()
+      reject(new Error(`Timed out connecting to ${ip}:${port}`))
+    }, settings.connectTimeout)
+
+    ws.on(`message`, (message) => {
+      let data: Message = {}
+      try {
+        data = JSON.parse(message.toString())
+      } catch (err) {
+        return
+      }
+      if (connected) {
+        listeners.forEach((listener) => listener(data))
+        return
+      }
+      if (data.event === `ms.channel.connect`) {
+        clearTimeout(timer)
+        const { token: connectToken } = (data.data || {}) as {
+          token?: string | number
+        }
+        sessionToken =
+          connectToken !== undefined ? String(connectToken) : undefined
+        connected = true
+        resolve(session)
+      } else if (data.event === `ms.channel.unauthorized`) {
+        clearTimeout(timer)
+        ws.close()
+        reject(
+          new UnauthorizedError(
+            `Connection to ${ip}:${port} was not authorized`,
+          ),
+        )
+      }
+    })
+    ws.on(`error`, (err) => {
+      clearTimeout(timer)
+      reject(err)
+    })
+    ws.on(`close`, () => {
+      connected = false
+      clearTimeout(timer)
+      reject(new Error(`Connection to ${ip}:${port} was closed`))
+    })
+  })
+
+/**
+ * The legacy protocol doesn't have a handshake so the "session"
+ * just keeps the remote around
+ */
+const openLegacySession = async (options: ConnectionOptions) => {
+  const { ip, mac, name = DEFAULT_NAME, port } = options
+  const control = new Samsung({ ip, mac, nameApp: name, port })
+  let open = true
+  const session: RemoteSession = {
+    get isOpen() {
+      return open
+    },
+    sendKey: async (key: KEYS) => {
+      await control.sendKeyPromise(key)
+    },
+    holdKey: async () => {
+      throw new Error(`Holding keys is not supported by the legacy protocol`)
+    },
+    emit: async () => {
+      throw new Error(`Events are not supported by the legacy protocol`)
+    },
+    close: () => {
+      open = false
+      control.closeConnection()
+    },
+  }
+  return session
+}
+
+/**
+ * Opens an encrypted session to H/J-Series TVs
+ */
+const openIdentitySession = async (options: ConnectionOptions) => {
+  const tv = new HJSamsungTv({
+    ip: options.ip,
+    appId: HJ_APP_ID,
+    userId: HJ_USER_ID,
+  })
+  await tv.init(options.identity)
+  const connection = await tv.connect()
+  let open = true
+  tv.eventEmitter.on(`disconnected`, () => {
+    open = false
+  })
+  const session: RemoteSession = {
+    get isOpen() {
+      return open && connection.isReady()
+    },
+    sendKey: async (key: KEYS) => {
+      await tv.sendKey(key)
+    },
+    holdKey: async () => {
+      throw new Error(`Holding keys is not supported by H/J-Series TVs`)
+    },
+    emit: async () => {
+      throw new Error(`Events are not supported by H/J-Series TVs`)
+    },
+    close: () => {
+      open = false
+      connection.close()
+    },
+  }
+  return session
+}
+
+const openSession = async (
+  options: ConnectionOptions,
+  settings: ConnectionSettings,
+) => {
+  if (options.identity) {
+    return openIdentitySession(options)
+  }
+  if (options.port === 55000) {
+    return openLegacySession(options)
+  }
+  return openWebsocketSession(options, settings)
+}
+
+/**
+ * Only changes to these options require a new session
+ */
+const sessionKey = ({ ip, port, token, secure }: ConnectionOptions) =>
+  [ip, port, token, secure].join(`|`)
+
+/**
+ * Keeps one session per device open so that consecutive keys don't have
+ * to go through the whole handshake again
+ */
+export class DeviceConnection {
+  private session: RemoteSession | null = null
+  private connecting: Promise<RemoteSession> | null = null
+  private queue: Promise<void> = Promise.resolve()
+  private idleTimer?: NodeJS.Timeout
+  private failures = 0
+
+  constructor(
+    private options: ConnectionOptions,
+    private readonly settings: ConnectionSettings = DEFAULT_SETTINGS,
+  ) {}
+
+  public get isOpen() {
+    return !!this.session && this.session.isOpen
+  }
+
+  /**
+   * Updates the options and drops the current session
+   * when e.g. the ip or the token changed. Switching to the token
+   * the TV handed out for the session keeps it open.
+   */
+  public update(options: ConnectionOptions) {
+    const keys = [sessionKey(this.options)]
+    if (this.session && this.session.token) {
+      keys.push(sessionKey({ ...this.options, token: this.session.token }))
+    }
+    if (keys.indexOf(sessionKey(options)) === -1) {
+      this.close()
+    }
+    this.options = options
+  }
+
+  /**
+   * Sends the keys one after another. Calls are queued so that
+   * key sequences don't get mixed up.
+   */
+  public sendKeys(keys: Array<KEYS>, delay = 0) {
+    return this.enqueue(async () => {
+      for (let i = 0; i < keys.length; ++i) {
+        await this.sendKey(keys[i])
+        if (i < keys.length - 1) {
+          await wait(delay)
+        }
+      }
+    })
+  }
+
+  /**
+   * Holds a key e.g. for a long press of the power key
+   */
+  public holdKey(key: KEYS, duration: number) {
+    return this.enqueue(async () => {
+      const session = await this.open()
+      await session.holdKey(key, duration)
+      this.resetIdleTimer()
+    })
+  }
+
+  /**
+   * Emits an event (e.g. `ed.installedApp.get`) and resolves with the answer
+   */
+  public emit<T>(event: string, data?: unknown) {
+    return this.enqueue(async () => {
+      const session = await this.open()
+      const result = await session.emit(event, data)
+      this.resetIdleTimer()
+      return result as T
+    })
+  }
+
+  public close() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+    }
+    if (this.session) {
+      this.session.close()
+      this.session = null
+    }
+  }
+
+  private enqueue<T>(fn: () => Promise<T>) {
+    const run = this.queue.then(fn)
+    this.queue = run.then(
+      () => undefined,
+      () => undefined,
+    )
+    return run
+  }
+
+  private async sendKey(key: KEYS) {
+    const session = await this.open()
+    try {
+      await session.sendKey(key)
+    } catch (err) {
+      // The TV might have dropped the session in the meantime
+      this.close()
+      const retried = await this.open()
+      await retried.sendKey(key)
+    }
+    this.resetIdleTimer()
+  }
+
+  private open() {
+    if (this.session && this.session.isOpen) {
+      return Promise.resolve(this.session)
+    }
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
+
+  private async connect() {
+    this.close()
+    const { retries, backoff, maxBackoff } = this.settings
+    let lastError: Error = new Error(`Could not connect`)
+    for (let attempt = 0; attempt <= retries; ++attempt) {
+      if (this.failures > 0) {
+        await wait(Math.min(backoff * 2 ** (this.failures - 1), maxBackoff))
+      }
+      try {
+        this.session = await openSession(this.options, this.settings)
+        this.failures = 0
+        this.checkToken(this.session)
+        return this.session
+      } catch (err) {
+        // Retrying would only prompt the user on the TV again
+        if (err instanceof UnauthorizedError) {
+          if (this.options.onUnauthorized) {
+            this.options.onUnauthorized()
+          }
+          throw err
+        }
+        this.failures++
+        lastError = err
+      }
+    }
+    throw lastError
+  }
+
+  /**
+   * Reports the token the TV handed out when it differs from the one used
+   */
+  private checkToken({ token }: RemoteSession) {
+    if (!token || token === this.options.token) {
+      return
+    }
+    if (this.options.onToken) {
+      this.options.onToken(token)
+    }
+  }
+
+  private resetIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+    }
+    this.idleTimer = setTimeout(() => this.close(), this.settings.idleTimeout)
+    this.idleTimer.unref()
+  }
+}
+
+/**
+ * Connects without a token so that the TV asks the user to allow the
+ * remote and resolves with the token the TV hands out
+ */
+export const requestToken = async (
+  options: ConnectionOptions,
+  timeout = TOKEN_REQUEST_TIMEOUT,
+) => {
+  const session = await openWebsocketSession(
+    { ...options, token: undefined },
+    { ...DEFAULT_SETTINGS, connectTimeout: timeout },
+  )
+  const { token } = session
+  session.close()
+  if (!token) {
+    throw new NoTokenError(
+      `${options.ip}:${options.port} accepted the remote without handing out a token`,
+    )
+  }
+  return token
+}
+
+const connections: { [usn: string]: DeviceConnection } = {}
+
+/**
+ * Returns the shared connection of a device
+ */
+export const getConnection = (usn: string, options: ConnectionOptions) => {
+  let connection = connections[usn]
+  if (connection) {
+    connection.update(options)
+  } else {
+    connection = new DeviceConnection(options)
+    connections[usn] = connection
+  }
+  return connection
+}
+
+/**
+ * Closes all open sessions e.g. when homebridge shuts down
+ */
+export const closeConnections = () => {
+  for (const usn of Object.keys(connections)) {
+    connections[usn].close()
+    delete connections[usn]
+  }
+}
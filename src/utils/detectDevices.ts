@@ -3,13 +3,23 @@ import UPNP from 'node-upnp'
 import parseSN, { SamsungTVModel } from './parseSerialNumber'
 import getMacAddress from './getMacAddress'
 import filterUSN from './filterUSN'
+import { getDeviceInfo } from './restApi'
+import { MAIN_TV_SERVER, getActions } from './mainTVAgent'
+import unicastDiscovery from './unicastDiscovery'
+import getInterfaceAddresses from './networkInterface'
+import wait from './wait'
 // import { Logger } from 'homebridge'
 import chalk from 'chalk'
-import { SamsungPlatformConfig, UPNPCapability } from '../types/deviceConfig'
+import {
+  DeviceConfig,
+  SamsungPlatformConfig,
+  UPNPCapability,
+} from '../types/deviceConfig'
 
 interface Headers {
   USN: string
   LOCATION: string
+  ST?: string
 }
 interface RemoteInfo {
   address: string
@@ -25,6 +35,19 @@ interface CheckedUpnpDevice {
   services?: { [service: string]: Record<string, unknown> }
 }
 
+export const MEDIA_RENDERER = `urn:schemas-upnp-org:device:MediaRenderer:1`
+
+const SEARCH_TARGETS = [
+  MEDIA_RENDERER,
+  `urn:schemas-upnp-org:service:RenderingControl:1`,
+  MAIN_TV_SERVER,
+]
+const DISCOVERY_DURATION = 5000
+/**
+ * Delay in ms between repeated search requests
+ */
+const RETRANSMIT_INTERVAL = 1000
+
 export interface SamsungTV {
   friendlyName: string
   modelName: string
@@ -33,12 +56,65 @@ export interface SamsungTV {
   mac: string
   location: string
   address: string
+  mainTVAgentLocation?: string
   capabilities: Array<UPNPCapability>
 }
 
-const checkDeviceDetails = async (
+/**
+ * Creates the initial config of a discovered TV
+ */
+export const getDeviceConfig = (tv: SamsungTV): DeviceConfig => {
+  const {
+    usn,
+    friendlyName: name,
+    modelName,
+    location: lastKnownLocation,
+    address: lastKnownIp,
+    mainTVAgentLocation,
+    mac,
+    capabilities,
+  } = tv
+  return {
+    name,
+    modelName,
+    lastKnownLocation,
+    lastKnownIp,
+    mainTVAgentLocation,
+    mac,
+    usn,
+    delay: 500,
+    capabilities,
+  }
+}
+
+const getRestModelName = async (ip: string) => {
+  try {
+    const { device } = await getDeviceInfo(ip)
+    return device && device.modelName ? device.modelName : undefined
+  } catch (err) {
+    return undefined
+  }
+}
+
+/**
+ * Thrown when the device description couldn't be fetched,
+ * e.g. because the device is unreachable for the moment
+ */
+export class DescriptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = `DescriptionError`
+  }
+}
+
+/**
+ * Checks if the device at the location is a supported Samsung TV.
+ * Resolves with null for devices that are not supported and rejects
+ * with a `DescriptionError` when the device couldn't be checked.
+ */
+export const checkDevice = async (
   headers: Headers,
-  rinfo: RemoteInfo,
+  address: string,
   config?: SamsungPlatformConfig,
 ) => {
   const deviceCustomizations =
@@ -50,11 +126,9 @@ const checkDeviceDetails = async (
     upnp = new UPNP({ url: headers.LOCATION })
     deviceDescription = (await upnp.getDeviceDescription()) as CheckedUpnpDevice
   } catch (err) {
-    console.log(
-      chalk`{red Got error while trying to check device with usn: "{yellow ${usn}}}".`,
-      err,
+    throw new DescriptionError(
+      `Could not fetch the description of ${headers.LOCATION}: ${err.message}`,
     )
-    return null
   }
   const { /* manufacturer, */ friendlyName, services = {} } = deviceDescription
   let { modelName } = deviceDescription
@@ -64,12 +138,20 @@ const checkDeviceDetails = async (
   // ) {
   //   return null
   // }
-  if (typeof modelName !== `string` || !modelName.length || modelName === "Samsung DTV DMR") {
+  if (
+    typeof modelName !== `string` ||
+    !modelName.length ||
+    modelName === `Samsung DTV DMR`
+  ) {
     // Check if the modelName was configured manually
     const configuredDevice = deviceCustomizations.find((d) => d.usn === usn)
     if (configuredDevice && configuredDevice.modelName) {
       modelName = configuredDevice.modelName
     } else {
+      // Tizen TV's tell their actual model name over their REST API
+      modelName = await getRestModelName(address)
+    }
+    if (!modelName) {
       console.log(
         chalk`Found a device ({blue ${friendlyName}}) that doesn't expose a correct Samsung model name. ` +
           chalk`If this is a Samsung TV add this device to your config with usn: "{green ${usn}}" and the correct model name (e.g. UN40C5000)`,
@@ -84,9 +166,21 @@ const checkDeviceDetails = async (
     )
     return null
   }
+  if (model.category === `Soundbar`) {
+    console.log(
+      chalk`Found soundbar {blue ${friendlyName}} (${modelName}), usn: "{green ${usn}}". Soundbars are not supported. Skipping it.`,
+    )
+    return null
+  }
+  if (model.confidence < 0.5) {
+    console.log(
+      chalk.yellow`The model name ${modelName} of {blue ${friendlyName}} is not well known. ` +
+        chalk.yellow`If the TV can't be controlled set the {green modelName} of usn: "{green ${usn}}" in your config.`,
+    )
+  }
   let mac = `00:00:00:00:00:00`
   try {
-    mac = await getMacAddress(rinfo.address)
+    mac = await getMacAddress(address, headers.LOCATION)
   } catch (err) {
     const configuredDevice = deviceCustomizations.find((d) => d.usn === usn)
     if (configuredDevice && configuredDevice.mac) {
@@ -126,45 +220,161 @@ const checkDeviceDetails = async (
     mac,
     capabilities,
     location: headers.LOCATION,
-    address: rinfo.address,
+    address,
   }
   return tv
 }
 
+/**
+ * Checks if the device at the location is a supported Samsung TV
+ */
+export const checkDeviceDetails = async (
+  headers: Headers,
+  address: string,
+  config?: SamsungPlatformConfig,
+) => {
+  try {
+    return await checkDevice(headers, address, config)
+  } catch (err) {
+    if (!(err instanceof DescriptionError)) {
+      throw err
+    }
+    const usn = filterUSN(headers.USN)
+    console.log(
+      chalk`{red Got error while trying to check device with usn: "{yellow ${usn}}}".`,
+      err,
+    )
+    return null
+  }
+}
+
 export default async (
   // log?: Logger,
   config?: SamsungPlatformConfig,
 ): Promise<Array<SamsungTV>> => {
+  const {
+    discoveryDuration,
+    searchTargets = [],
+    discoveryInterface,
+    discoveryRetransmits,
+  } = config || {}
+  const duration =
+    typeof discoveryDuration === `number` && discoveryDuration > 0
+      ? discoveryDuration
+      : DISCOVERY_DURATION
+  const retransmits =
+    typeof discoveryRetransmits === `number` && discoveryRetransmits > 0
+      ? Math.floor(discoveryRetransmits)
+      : 0
+  const targets = [...SEARCH_TARGETS, ...searchTargets].filter(
+    (st, i, all) => all.indexOf(st) === i,
+  )
+
   const checkedDevices: Array<string> = []
   const client = new Client({
     ssdpSig: `USER-AGENT: Homebridge/42.0.0 UPnP/1.1 hbTV/8.21.0`,
     ssdpIp: `239.255.255.250`,
+    // Bind to the address of the interface so multi-homed hosts send from it
+    explicitSocketBind: !!discoveryInterface,
   })
+  if (discoveryInterface) {
+    try {
+      const addresses = getInterfaceAddresses(discoveryInterface)
+      // The client opens a socket for every interface, close the others
+      for (const address of Object.keys(client.sockets)) {
+        if (addresses.indexOf(address) === -1) {
+          client.sockets[address].close()
+          delete client.sockets[address]
+        }
+      }
+    } catch (err) {
+      console.log(
+        chalk.red`${err.message}. Searching on all network interfaces.`,
+      )
+    }
+  }
 
   const deviceChecks: Array<Promise<SamsungTV | null>> = []
+  // The MainTVServer2 is a separate device with its own usn
+  const mainTVAgentLocations: { [address: string]: string } = {}
   client.on(
     `response`,
     (headers: Headers, statusCode: number, rinfo: RemoteInfo) => {
       if (statusCode !== 200) {
         return
       }
+      if (headers.ST === MAIN_TV_SERVER) {
+        mainTVAgentLocations[rinfo.address] = headers.LOCATION
+        return
+      }
       if (checkedDevices.indexOf(filterUSN(headers.USN)) > -1) {
         return
       }
       checkedDevices.push(filterUSN(headers.USN))
-      deviceChecks.push(checkDeviceDetails(headers, rinfo, config))
+      deviceChecks.push(checkDeviceDetails(headers, rinfo.address, config))
     },
   )
-  client.search(`urn:schemas-upnp-org:device:MediaRenderer:1`)
-  client.search(`urn:schemas-upnp-org:service:RenderingControl:1`)
-
-  // Scan for scanDuration ms
-  await new Promise<void>((res) => {
-    setTimeout(() => {
-      res()
-    }, 5000)
+  let scanning = true
+  const search = async () => {
+    await client.start()
+    for (let i = 0; i <= retransmits && scanning; ++i) {
+      if (i > 0) {
+        await wait(RETRANSMIT_INTERVAL)
+      }
+      for (const st of targets) {
+        client.search(st)
+      }
+    }
+  }
+  const searching = search().catch((err) => {
+    console.log(chalk.red`Upnp discovery failed.`, err.message)
   })
 
-  const devices = await Promise.all(deviceChecks)
-  return devices.filter((d) => !!d) as Array<SamsungTV>
+  // Probe TV's in other subnets directly
+  const { unicastHosts = [], locations = [] } = config || {}
+  const unicastCheck = unicastDiscovery(unicastHosts, locations)
+    .then((unicastDevices) => {
+      for (const { usn, location, address } of unicastDevices) {
+        if (checkedDevices.indexOf(filterUSN(usn)) > -1) {
+          continue
+        }
+        checkedDevices.push(filterUSN(usn))
+        deviceChecks.push(
+          checkDeviceDetails({ USN: usn, LOCATION: location }, address, config),
+        )
+      }
+    })
+    .catch((err) => {
+      console.log(chalk.red`Unicast discovery failed.`, err.message)
+    })
+
+  // Scan for duration ms
+  await wait(duration)
+  scanning = false
+  await searching
+  client.stop()
+
+  await unicastCheck
+  const devices = (await Promise.all(deviceChecks)).filter(
+    (d) => !!d,
+  ) as Array<SamsungTV>
+  for (const device of devices) {
+    const location = mainTVAgentLocations[device.address]
+    if (!location) {
+      continue
+    }
+    try {
+      device.capabilities = [
+        ...device.capabilities,
+        ...(await getActions(location)),
+      ]
+      device.mainTVAgentLocation = location
+    } catch (err) {
+      console.log(
+        chalk.yellow`Could not check MainTVAgent2 capabilities for {blue ${device.friendlyName}}, usn: "{green ${device.usn}}".`,
+        err,
+      )
+    }
+  }
+  return devices
 }
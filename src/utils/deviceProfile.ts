@@ -0,0 +1,113 @@
+import parseSerialNumber, { SamsungTVModel } from './parseSerialNumber'
+
+/**
+ * - legacy: unencrypted remote protocol on port 55000 (until 2013)
+ * - encrypted: pin paired protocol of the H/J-Series (2014/2015)
+ * - websocket: websocket remote of Tizen TV's (2016+)
+ */
+export type RemoteProtocol = `legacy` | `encrypted` | `websocket`
+
+/**
+ * - none: the TV just asks to allow the remote on the first key
+ * - pin: pairing with the pin shown on the TV (`pair1`)
+ * - token: pairing with a token the TV hands out (`pair2`)
+ */
+export type PairingMethod = `none` | `pin` | `token`
+
+export const LEGACY_PORT = 55000
+export const WEBSOCKET_PORT = 8001
+export const SECURE_WEBSOCKET_PORT = 8002
+
+export interface DeviceProfile {
+  protocol: RemoteProtocol
+  /**
+   * Remote control port that is used unless one is configured
+   */
+  port: number
+  /**
+   * Ports worth trying when the default port doesn't work
+   */
+  fallbackPorts: Array<number>
+  pairing: PairingMethod
+  wakeOnLan: boolean
+  apps: boolean
+  restApi: boolean
+  /**
+   * Newest year the model could be from
+   */
+  year?: number
+}
+
+const getNewestYear = (model: SamsungTVModel | null) => {
+  if (!model) {
+    return undefined
+  }
+  const years: Array<number> = Array.isArray(model.year)
+    ? [...model.year]
+    : [model.year as number]
+  return years.length ? Math.max(...years) : undefined
+}
+
+const profiles: { [protocol in RemoteProtocol]: DeviceProfile } = {
+  legacy: {
+    protocol: `legacy`,
+    port: LEGACY_PORT,
+    fallbackPorts: [WEBSOCKET_PORT, SECURE_WEBSOCKET_PORT],
+    pairing: `none`,
+    wakeOnLan: false,
+    apps: false,
+    restApi: false,
+  },
+  // Some of them got the websocket remote with firmware updates
+  // and some H-Series still speak the legacy protocol
+  encrypted: {
+    protocol: `encrypted`,
+    port: WEBSOCKET_PORT,
+    fallbackPorts: [LEGACY_PORT],
+    pairing: `pin`,
+    wakeOnLan: true,
+    apps: false,
+    restApi: false,
+  },
+  websocket: {
+    protocol: `websocket`,
+    port: SECURE_WEBSOCKET_PORT,
+    fallbackPorts: [WEBSOCKET_PORT, LEGACY_PORT],
+    pairing: `token`,
+    wakeOnLan: true,
+    apps: true,
+    restApi: true,
+  },
+}
+
+/**
+ * Returns what a model supports and how to control it. Models
+ * that can't be parsed are treated like legacy TV's.
+ */
+export const getDeviceProfile = (modelName?: string): DeviceProfile => {
+  const model = modelName ? parseSerialNumber(modelName) : null
+  const year = getNewestYear(model)
+  let protocol: RemoteProtocol = `legacy`
+  if (year && year >= 2016) {
+    protocol = `websocket`
+  } else if (year && year >= 2014) {
+    protocol = `encrypted`
+  }
+  const profile = profiles[protocol]
+  return {
+    ...profile,
+    fallbackPorts: [...profile.fallbackPorts],
+    year,
+  }
+}
+
+/**
+ * Returns the configured remote control port or the default one of the model
+ */
+export const getRemotePort = ({
+  modelName,
+  remoteControlPort,
+}: {
+  modelName?: string
+  remoteControlPort?: number
+}) => remoteControlPort || getDeviceProfile(modelName).port
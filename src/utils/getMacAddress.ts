@@ -1,13 +1,209 @@
-import macFromIp from 'macfromip';
-
-export default (ip: string) => new Promise<string>((resolve, reject) => {
-  macFromIp.getMac(ip, (err, data) => {
-    if (err) {
-      reject(err);
-      return;
-    }
-    // fix the mac address so that every number consists of 2 bytes
-    const mac = data.trim().split(':').map(n => n.length < 2 ? `0${n}` : `${n}`).join(':');
-    resolve(mac);
-  });
-});
\ No newline at end of file
+import fs from 'fs'
+import http from 'http'
+import { execFile } from 'child_process'
+import { getDeviceInfo } from './restApi'
+
+const PROC_NET_ARP = `/proc/net/arp`
+const COMMAND_TIMEOUT = 2000
+
+/**
+ * Normalizes a mac address to lower case bytes separated by colons.
+ * Returns null for invalid, empty and broadcast addresses.
+ */
+export const normalizeMac = (mac?: string) => {
+  if (!mac) {
+    return null
+  }
+  const parts = mac.trim().split(/[:-]/)
+  if (parts.length !== 6 || !parts.every((p) => /^[0-9a-f]{1,2}$/i.test(p))) {
+    return null
+  }
+  const normalized = parts.map((p) => p.toLowerCase().padStart(2, `0`))
+  if (
+    normalized.every((p) => p === `00`) ||
+    normalized.every((p) => p === `ff`)
+  ) {
+    return null
+  }
+  return normalized.join(`:`)
+}
+
+/**
+ * Finds the mac address in the kernel's arp table (`/proc/net/arp`)
+ */
+export const parseProcNetArp = (contents: string, ip: string) => {
+  for (const line of contents.split(/\r?\n/).slice(1)) {
+    const [address, , flags, mac] = line.trim().split(/\s+/)
+    // Flags 0x0 marks incomplete entries
+    if (address === ip && flags !== `0x0`) {
+      const normalized = normalizeMac(mac)
+      if (normalized) {
+        return normalized
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Finds the mac address in the output of `ip neigh`
+ */
+export const parseIpNeigh = (output: string, ip: string) => {
+  for (const line of output.split(/\r?\n/)) {
+    const [address, ...fields] = line.trim().split(/\s+/)
+    const lladdr = fields.indexOf(`lladdr`)
+    if (address === ip && lladdr !== -1) {
+      const normalized = normalizeMac(fields[lladdr + 1])
+      if (normalized) {
+        return normalized
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Finds the mac address in the output of `arp` on macOS, BSD and windows
+ */
+export const parseArp = (output: string, ip: string) => {
+  for (const line of output.split(/\r?\n/)) {
+    // macOS / BSD: ? (192.168.1.5) at b8:bc:68:ad:bb:b8 on en0 ifscope [ethernet]
+    const bsd = /\(([0-9.]+)\) at ([0-9a-f:]+)/i.exec(line)
+    // Windows: 192.168.1.5           b8-bc-68-ad-bb-b8     dynamic
+    const windows = /^\s*([0-9.]+)\s+([0-9a-f]{2}(?:-[0-9a-f]{2}){5})\s/i.exec(
+      line,
+    )
+    const match = bsd || windows
+    if (match && match[1] === ip) {
+      const normalized = normalizeMac(match[2])
+      if (normalized) {
+        return normalized
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Finds the mac address in a UPnP device description
+ */
+export const parseDescriptionMac = (xml: string) => {
+  const match = /<(?:[a-z0-9]+:)?macAddress>([^<]*)</i.exec(xml)
+  return match ? normalizeMac(match[1]) : null
+}
+
+const run = (command: string, args: Array<string>) =>
+  new Promise<string>((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT }, (err, stdout) =>
+      err ? reject(err) : resolve(stdout),
+    )
+  })
+
+const fetchText = (url: string, timeout = 3000) =>
+  new Promise<string>((resolve, reject) => {
+    const req = http.get(url, { timeout }, (res) => {
+      const chunks: Array<Buffer> = []
+      res.on(`data`, (chunk) => chunks.push(chunk))
+      res.on(`end`, () => {
+        if (res.statusCode !== 200) {
+          reject(new Error(`GET ${url} failed with ${res.statusCode}`))
+          return
+        }
+        resolve(Buffer.concat(chunks).toString())
+      })
+    })
+    req.on(`timeout`, () => {
+      req.destroy(new Error(`GET ${url} timed out`))
+    })
+    req.on(`error`, reject)
+  })
+
+/**
+ * Looks up the ip in the neighbor tables of the host
+ */
+const lookupNeighbor = async (ip: string) => {
+  const sources: Array<() => Promise<string | null>> = [
+    async () =>
+      parseProcNetArp(await fs.promises.readFile(PROC_NET_ARP, `utf8`), ip),
+    async () => parseIpNeigh(await run(`ip`, [`neigh`, `show`, ip]), ip),
+    async () =>
+      parseArp(
+        await run(
+          `arp`,
+          process.platform === `win32` ? [`-a`, ip] : [`-n`, ip],
+        ),
+        ip,
+      ),
+  ]
+  for (const source of sources) {
+    try {
+      const mac = await source()
+      if (mac) {
+        return mac
+      }
+    } catch (err) {
+      // The source is not available on this host
+    }
+  }
+  return null
+}
+
+/**
+ * Sends a ping so that the host resolves the mac address of the ip
+ */
+const ping = async (ip: string) => {
+  try {
+    await run(
+      `ping`,
+      process.platform === `win32`
+        ? [`-n`, `1`, `-w`, `1000`, ip]
+        : [`-c`, `1`, ip],
+    )
+  } catch (err) {
+    // TV's might not answer pings but the arp entry exists anyway
+  }
+}
+
+/**
+ * Returns the mac address announced in the device description
+ */
+export const getDescriptionMac = async (location: string) =>
+  parseDescriptionMac(await fetchText(location))
+
+/**
+ * Returns the mac address reported by the REST API of Tizen TV's
+ */
+export const getRestApiMac = async (ip: string, port?: number) => {
+  const { device } = await getDeviceInfo(ip, port)
+  return device ? normalizeMac(device.wifiMac) : null
+}
+
+/**
+ * Resolves the mac address of a TV. Checks the neighbor tables first,
+ * pings the TV when it isn't in there yet and finally asks the TV itself.
+ */
+export default async (ip: string, location?: string) => {
+  let mac = await lookupNeighbor(ip)
+  if (!mac) {
+    await ping(ip)
+    mac = await lookupNeighbor(ip)
+  }
+  if (!mac && location) {
+    try {
+      mac = await getDescriptionMac(location)
+    } catch (err) {
+      // Continue with the REST API
+    }
+  }
+  if (!mac) {
+    try {
+      mac = await getRestApiMac(ip)
+    } catch (err) {
+      // Not a Tizen TV
+    }
+  }
+  if (!mac) {
+    throw new Error(`Could not determine the mac address of ${ip}`)
+  }
+  return mac
+}
@@ -0,0 +1,146 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { PLATFORM_NAME } from '../settings'
+import filterUSN from './filterUSN'
+import { DeviceEntry } from './pairing'
+
+/**
+ * Default storage path of homebridge which holds the config
+ * and the node-persist storage of the plugin
+ */
+export const DEFAULT_STORAGE_PATH = path.join(os.homedir(), `.homebridge`)
+export const DEFAULT_CONFIG_PATH = path.join(
+  DEFAULT_STORAGE_PATH,
+  `config.json`,
+)
+
+interface PlatformBlock {
+  platform: string
+  devices?: Array<DeviceEntry>
+  [key: string]: unknown
+}
+
+export interface HomebridgeConfig {
+  platforms?: Array<PlatformBlock>
+  [key: string]: unknown
+}
+
+/**
+ * Fields of existing entries that are kept, e.g. the name the user chose
+ */
+const KEPT_FIELDS = [`name`]
+
+/**
+ * Fields that belong to the pairing, they are removed from existing
+ * entries when the new pairing doesn't need them (e.g. the default port)
+ */
+const PAIRING_FIELDS = [`token`, `remoteControlPort`]
+
+/**
+ * Adds the device entry to the platform block of the plugin. Entries are
+ * matched by usn (or by the `lastKnownIp` when no usn matches) and updated,
+ * unknown devices are appended. The platform block is created if it
+ * doesn't exist yet.
+ */
+export const setDeviceEntry = (
+  config: HomebridgeConfig,
+  entry: DeviceEntry,
+  ip?: string,
+) => {
+  const usn =
+    typeof entry.usn === `string` && entry.usn ? filterUSN(entry.usn) : null
+  const platforms = Array.isArray(config.platforms) ? config.platforms : []
+  let platform = platforms.find((p) => p && p.platform === PLATFORM_NAME)
+  if (!platform) {
+    platform = { platform: PLATFORM_NAME }
+    platforms.push(platform)
+  }
+  const devices = Array.isArray(platform.devices) ? platform.devices : []
+  let index = devices.findIndex(
+    (d) => d && typeof d.usn === `string` && filterUSN(d.usn) === usn,
+  )
+  if (index === -1 && ip) {
+    index = devices.findIndex((d) => d && d.lastKnownIp === ip)
+  }
+  let created = false
+  if (index === -1) {
+    if (!usn) {
+      throw new Error(`The device entry needs a usn`)
+    }
+    devices.push({ ...entry, usn })
+    created = true
+  } else {
+    const device = { ...devices[index] }
+    const update = { ...entry }
+    for (const field of PAIRING_FIELDS) {
+      if (update[field] === undefined) {
+        delete device[field]
+      }
+    }
+    for (const field of KEPT_FIELDS) {
+      if (device[field] !== undefined) {
+        delete update[field]
+      }
+    }
+    // Keep the usn as it was configured
+    delete update.usn
+    devices[index] = { ...device, ...update }
+  }
+  platform.devices = devices
+  config.platforms = platforms
+  return { config, created }
+}
+
+/**
+ * Reads and parses the homebridge config file
+ */
+export const readConfig = async (configPath = DEFAULT_CONFIG_PATH) => {
+  let config: HomebridgeConfig
+  try {
+    config = JSON.parse(await fs.promises.readFile(configPath, `utf8`))
+  } catch (err) {
+    throw new Error(`Could not read the config ${configPath}: ${err.message}`)
+  }
+  if (!config || typeof config !== `object` || Array.isArray(config)) {
+    throw new Error(`The config ${configPath} is not a homebridge config`)
+  }
+  return config
+}
+
+/**
+ * Returns the entry of the device in the platform block of the plugin
+ */
+export const findDeviceEntry = (config: HomebridgeConfig, usn: string) => {
+  const platforms = Array.isArray(config.platforms) ? config.platforms : []
+  const platform = platforms.find((p) => p && p.platform === PLATFORM_NAME)
+  const devices =
+    platform && Array.isArray(platform.devices) ? platform.devices : []
+  return (
+    devices.find(
+      (d) =>
+        d && typeof d.usn === `string` && filterUSN(d.usn) === filterUSN(usn),
+    ) || null
+  )
+}
+
+/**
+ * Writes the device entry into the homebridge config file. The old file is
+ * backed up next to it first.
+ */
+export const writeDeviceEntry = async (
+  entry: DeviceEntry,
+  configPath = DEFAULT_CONFIG_PATH,
+  ip?: string,
+) => {
+  const config = await readConfig(configPath)
+  const { created } = setDeviceEntry(config, entry, ip)
+  const backupPath = `${configPath}.${Date.now()}.bak`
+  await fs.promises.copyFile(configPath, backupPath)
+  // Homebridge indents its config with 4 spaces
+  await fs.promises.writeFile(
+    configPath,
+    `${JSON.stringify(config, null, 4)}\n`,
+  )
+  return { backupPath, created }
+}
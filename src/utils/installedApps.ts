@@ -0,0 +1,38 @@
+import { InstalledApp } from '../types/deviceConfig'
+
+interface RawApp {
+  appId: string
+  app_type: number
+  name: string
+}
+
+/**
+ * Extracts the apps from the answer of the `ed.installedApp.get` event
+ */
+export const parseInstalledApps = (data: unknown): Array<InstalledApp> => {
+  const { data: apps } = (data || {}) as { data?: Array<RawApp> }
+  if (!Array.isArray(apps)) {
+    return []
+  }
+  return apps
+    .filter((app) => app && app.appId && app.name)
+    .map(({ appId, app_type: type, name }) => ({ appId, name, type }))
+}
+
+const matches = (app: InstalledApp, patterns: Array<string>) =>
+  patterns.some(
+    (p) => p === app.appId || p.toLowerCase() === app.name.toLowerCase(),
+  )
+
+/**
+ * Filters apps by their name (case insensitive) or id
+ */
+export const filterApps = (
+  apps: Array<InstalledApp>,
+  include: Array<string> = [],
+  exclude: Array<string> = [],
+) =>
+  apps.filter(
+    (app) =>
+      (!include.length || matches(app, include)) && !matches(app, exclude),
+  )
@@ -0,0 +1,113 @@
+import UPNP from 'node-upnp'
+import { parseChannelList } from './channels'
+import { decodeEntities, encodeEntities, getTag } from './xml'
+import { TVSource } from '../types/deviceConfig'
+
+export interface SourceState extends TVSource {
+  connected: boolean
+  active: boolean
+}
+
+/**
+ * Device and service type of Samsung's own upnp service which
+ * offers e.g. channels and sources on models from 2011 to 2015
+ */
+export const MAIN_TV_SERVER = `urn:samsung.com:device:MainTVServer2:1`
+export const MAIN_TV_AGENT = `urn:samsung.com:serviceId:MainTVAgent2`
+
+/**
+ * Returns the names of the supported actions
+ */
+export const getActions = async (location: string) => {
+  const upnp = new UPNP({ url: location })
+  const { actions } = await upnp.getServiceDescription(MAIN_TV_AGENT)
+  return Object.keys(actions)
+}
+
+const call = async (
+  location: string,
+  action: string,
+  data?: { [arg: string]: string | number },
+) => {
+  const upnp = new UPNP({ url: location })
+  const result: { [arg: string]: unknown } = await upnp.call(
+    MAIN_TV_AGENT,
+    action,
+    data,
+  )
+  // Failures are still answered with 200 but another result
+  if (result.Result !== undefined && result.Result !== `OK`) {
+    throw new Error(`${action} failed with ${result.Result}`)
+  }
+  return result
+}
+
+/**
+ * Fetches the channels stored on the TV
+ */
+export const getChannelList = async (location: string) => {
+  const { ChannelList: channelList } = await call(location, `GetChannelList`)
+  if (typeof channelList !== `string`) {
+    return []
+  }
+  return parseChannelList(decodeEntities(channelList))
+}
+
+/**
+ * Parses the (unescaped) source list which also tells
+ * which sources are connected and which one is active
+ */
+export const parseSourceList = (xml: string) => {
+  const currentId = getTag(xml, `CurrentSourceID`)
+  const sources: Array<SourceState> = []
+  const re = /<Source>[\s\S]*?<\/Source>/g
+  let match: RegExpExecArray | null
+  while ((match = re.exec(xml))) {
+    const type = getTag(match[0], `SourceType`)
+    const id = getTag(match[0], `ID`)
+    if (!type || !id) {
+      continue
+    }
+    sources.push({
+      type,
+      id: parseInt(id, 10),
+      name: getTag(match[0], `DeviceName`) || type,
+      connected: getTag(match[0], `Connected`) !== `No`,
+      active: id === currentId,
+    })
+  }
+  return sources
+}
+
+/**
+ * Checks if a source has the type e.g. `HDMI1` for `HDMI1/DVI`
+ */
+export const isSourceType = (source: TVSource, type: string) =>
+  source.type.split(`/`)[0].toUpperCase() === type.toUpperCase()
+
+export const getSourceList = async (location: string) => {
+  const { SourceList: sourceList } = await call(location, `GetSourceList`)
+  if (typeof sourceList !== `string`) {
+    return []
+  }
+  return parseSourceList(decodeEntities(sourceList))
+}
+
+export const setMainTVSource = async (location: string, source: TVSource) => {
+  await call(location, `SetMainTVSource`, {
+    Source: source.type,
+    ID: source.id,
+    UiID: source.id,
+  })
+}
+
+/**
+ * Switches to a channel (xml) of the channel list
+ */
+export const setMainTVChannel = async (location: string, channel: string) => {
+  await call(location, `SetMainTVChannel`, {
+    ChannelListType: `B`,
+    SatelliteID: 0,
+    Channel: encodeEntities(channel),
+  })
+}
@@ -0,0 +1,29 @@
+import os from 'os'
+
+type NetworkInterfaces = ReturnType<typeof os.networkInterfaces>
+
+/**
+ * Returns the ipv4 addresses of a network interface. The interface can
+ * be given by its name (e.g. `eth0`) or by one of its addresses.
+ */
+export default (
+  iface: string,
+  interfaces: NetworkInterfaces = os.networkInterfaces(),
+) => {
+  const name = iface.trim()
+  const addresses: Array<string> = []
+  for (const [ifaceName, infos = []] of Object.entries(interfaces)) {
+    for (const { address, family, internal } of infos) {
+      if (internal || family !== `IPv4`) {
+        continue
+      }
+      if (ifaceName === name || address === name) {
+        addresses.push(address)
+      }
+    }
+  }
+  if (!addresses.length) {
+    throw new Error(`No ipv4 address found for network interface "${iface}"`)
+  }
+  return addresses
+}
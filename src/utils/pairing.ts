@@ -0,0 +1,101 @@
+import { PLATFORM_NAME } from '../settings'
+import {
+  getDeviceProfile,
+  RemoteProtocol,
+  LEGACY_PORT,
+  SECURE_WEBSOCKET_PORT,
+  WEBSOCKET_PORT,
+} from './deviceProfile'
+
+export type PairingMethodName = `legacy` | `token` | `pin`
+
+export interface PairingAttempt {
+  method: PairingMethodName
+  /**
+   * Remote control port (not used by pin pairing)
+   */
+  port?: number
+}
+
+const LEGACY: PairingAttempt = { method: `legacy`, port: LEGACY_PORT }
+const TOKEN: PairingAttempt = { method: `token`, port: SECURE_WEBSOCKET_PORT }
+const TOKEN_UNSECURE: PairingAttempt = { method: `token`, port: WEBSOCKET_PORT }
+const PIN: PairingAttempt = { method: `pin` }
+
+/**
+ * Order in which the pairing methods are tried per protocol
+ */
+const ATTEMPTS: { [protocol in RemoteProtocol]: Array<PairingAttempt> } = {
+  legacy: [LEGACY, TOKEN, TOKEN_UNSECURE, PIN],
+  encrypted: [PIN, TOKEN_UNSECURE, TOKEN, LEGACY],
+  websocket: [TOKEN, TOKEN_UNSECURE, PIN, LEGACY],
+}
+
+/**
+ * Returns the pairing methods to try for a model, the most promising one
+ * first. `methods` limits the attempts to these methods.
+ */
+export const getPairingAttempts = (
+  modelName?: string,
+  methods?: Array<PairingMethodName>,
+) => {
+  const { protocol } = getDeviceProfile(modelName)
+  return ATTEMPTS[protocol]
+    .filter(({ method }) => !methods || methods.indexOf(method) !== -1)
+    .map((attempt) => ({ ...attempt }))
+}
+
+export interface PairedDevice {
+  usn?: string
+  name?: string
+  modelName?: string
+  mac?: string
+  token?: string | null
+  port?: number
+}
+
+export type DeviceEntry = { [key: string]: string | number }
+
+/**
+ * Returns the device entry of the platform config for the paired device
+ */
+export const getDeviceEntry = ({
+  usn,
+  name,
+  modelName,
+  mac,
+  token,
+  port,
+}: PairedDevice) => {
+  const device: DeviceEntry = {}
+  if (usn) {
+    device.usn = usn
+  }
+  if (name) {
+    device.name = name
+  }
+  if (modelName) {
+    device.modelName = modelName
+  }
+  if (mac) {
+    device.mac = mac
+  }
+  if (token) {
+    device.token = token
+  }
+  // Only needed when the TV doesn't use the default port of its model
+  if (port && port !== getDeviceProfile(modelName).port) {
+    device.remoteControlPort = port
+  }
+  return device
+}
+
+/**
+ * Returns the platform config with the paired device
+ */
+export const getConfigSnippet = (paired: PairedDevice) =>
+  JSON.stringify(
+    { platform: PLATFORM_NAME, devices: [getDeviceEntry(paired)] },
+    null,
+    2,
+  )
@@ -0,0 +1,48 @@
+import { APPS } from 'samsung-tv-control'
+import { InstalledApp } from '../types/deviceConfig'
+
+export interface AppLaunch {
+  appId: string
+  /**
+   * Deep link data passed to the app e.g. `contentId=80057281`
+   */
+  metaTag?: string
+}
+
+const findByName = (name: string, installedApps: Array<InstalledApp>) => {
+  const lowerName = name.toLowerCase()
+  const appName = Object.keys(APPS).find((n) => n.toLowerCase() === lowerName)
+  if (appName) {
+    return APPS[appName] as string
+  }
+  const installedApp = installedApps.find(
+    (a) => a.name.toLowerCase() === lowerName,
+  )
+  return installedApp ? installedApp.appId : null
+}
+
+/**
+ * Parses inputs that open an app. These are either names of
+ * samsung-tv-control's `APPS` or `app:<name or id>[?<deep link>]`
+ * e.g. `app:111299001912` or `app:Netflix?contentId=80057281`.
+ * Returns null for all other inputs, including macros with
+ * more steps like `app:Netflix, wait:3000, enter`.
+ */
+export default (
+  keys: string,
+  installedApps: Array<InstalledApp> = [],
+): AppLaunch | null => {
+  if (APPS[keys]) {
+    return { appId: APPS[keys] }
+  }
+  const match = /^app:([^?,\n]+)(\?([^,\n]*))?$/i.exec(keys.trim())
+  if (!match) {
+    return null
+  }
+  const app = match[1].trim()
+  const metaTag = match[3]
+  return {
+    appId: findByName(app, installedApps) || app,
+    ...(metaTag ? { metaTag } : {}),
+  }
+}
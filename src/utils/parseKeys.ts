@@ -1,7 +1,8 @@
 import flatten from 'lodash.flatten'
 import { KEYS } from 'samsung-tv-control'
 import { Logger } from 'homebridge'
-import { Input, DeviceConfig } from '../types/deviceConfig'
+import { Input, DeviceConfig, InstalledApp } from '../types/deviceConfig'
+import parseApp from './parseApp'
 
 export default (input: Input, device: DeviceConfig, log: Logger) => {
   // Channels (only numeric)
@@ -51,3 +52,195 @@ export default (input: Input, device: DeviceConfig, log: Logger) => {
     return true
   }) as Array<KEYS>
 }
+
+export type MacroStep =
+  | {
+      type: `key`
+      key: KEYS
+      /**
+       * Delay in ms before the next step, the device's delay when not set
+       */
+      delay?: number
+    }
+  | { type: `hold`; key: KEYS; duration: number; delay?: number }
+  | { type: `wait`; duration: number }
+  | { type: `app`; appId: string; metaTag?: string }
+  | { type: `power`; active: boolean }
+  | {
+      type: `if`
+      /**
+       * The step only runs when the TV's active state matches
+       */
+      active: boolean
+      step: MacroStep
+    }
+
+/**
+ * Thrown for invalid macros, line and column start at 1
+ */
+export class MacroSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = `MacroSyntaxError`
+  }
+}
+
+interface Token {
+  text: string
+  offset: number
+}
+
+/**
+ * Splits the macro into its steps which are separated by commas or new lines.
+ * Blank lines and commas at the end of a line are ignored.
+ */
+const tokenize = (source: string) => {
+  const tokens: Array<Token> = []
+  let lineOffset = 0
+  for (const line of source.split(`\n`)) {
+    const parts = line.split(`,`)
+    if (!parts[parts.length - 1].trim()) {
+      parts.pop()
+    }
+    let offset = lineOffset
+    for (const part of parts) {
+      const leading = part.length - part.replace(/^\s+/, ``).length
+      tokens.push({ text: part.trim(), offset: offset + leading })
+      offset += part.length + 1
+    }
+    lineOffset += line.length + 1
+  }
+  return tokens
+}
+
+const toKey = (name: string) =>
+  KEYS[name.toUpperCase().replace(/^(KEY_)?/, `KEY_`)] as KEYS | undefined
+
+/**
+ * Parses macros like `power:on, wait:5000, delay:200, down*3, enter:hold:2000`.
+ * Besides keys and repetitions these steps are supported:
+ * - `wait:<ms>` waits before the next step
+ * - `delay:<ms>` changes the delay between the following keys
+ * - `<key>:hold:<ms>` holds a key e.g. for a long press of power
+ * - `app:<name or id>[?<deep link>]` opens an app
+ * - `power:on` / `power:off` turns the TV on or off
+ * - `if:on:<step>` / `if:off:<step>` only runs the step in the given state
+ * Numbers only (e.g. `102`) switch to the channel. Numbers within a macro
+ * (e.g. `tv,102`) only type the digits so `enter` has to be added.
+ */
+export const parseMacro = (
+  source: string,
+  installedApps: Array<InstalledApp> = [],
+) => {
+  // Channels (only numeric)
+  if (/^[0-9]+$/.test(source.trim())) {
+    return [...source.trim(), `ENTER`].map(
+      (k): MacroStep => ({ type: `key`, key: toKey(k) as KEYS }),
+    )
+  }
+
+  const fail = (message: string, offset: number): never => {
+    const lines = source.slice(0, offset).split(`\n`)
+    throw new MacroSyntaxError(
+      message,
+      lines.length,
+      lines[lines.length - 1].length + 1,
+    )
+  }
+  const parseDuration = (value: string, offset: number) => {
+    if (!/^[0-9]+$/.test(value)) {
+      fail(`Expected a duration in ms but found "${value}"`, offset)
+    }
+    return parseInt(value, 10)
+  }
+
+  let delay: number | undefined
+  const steps: Array<MacroStep> = []
+
+  const parseStep = (text: string, offset: number): Array<MacroStep> => {
+    if (!text) {
+      return fail(`Expected a step`, offset)
+    }
+    // `power:hold:3000` holds the power key
+    const command = /^[a-z0-9_]+:hold:/i.test(text)
+      ? null
+      : /^([a-z]+):(.*)$/i.exec(text)
+    const name = command ? command[1].toLowerCase() : ``
+    const arg = command ? command[2].trim() : ``
+    const argOffset = offset + name.length + 1
+    if (name === `wait`) {
+      return [{ type: `wait`, duration: parseDuration(arg, argOffset) }]
+    }
+    if (name === `delay`) {
+      delay = parseDuration(arg, argOffset)
+      return []
+    }
+    if (name === `app`) {
+      const app = parseApp(text, installedApps)
+      return app
+        ? [{ type: `app`, ...app }]
+        : fail(`Expected an app`, argOffset)
+    }
+    if (name === `power`) {
+      if (!/^(on|off)$/i.test(arg)) {
+        fail(`Expected "on" or "off" but found "${arg}"`, argOffset)
+      }
+      return [{ type: `power`, active: arg.toLowerCase() === `on` }]
+    }
+    if (name === `if`) {
+      const condition = /^(on|off):(.*)$/i.exec(arg)
+      if (!condition) {
+        return fail(`Expected "if:on:<step>" or "if:off:<step>"`, offset)
+      }
+      const active = condition[1].toLowerCase() === `on`
+      const stepOffset = argOffset + condition[1].length + 1
+      return parseStep(condition[2].trim(), stepOffset).map((step) => ({
+        type: `if`,
+        active,
+        step,
+      }))
+    }
+
+    // Keys with an optional hold or repetition
+    const keyMatch = /^([a-z0-9_]+)(?::hold:(.*)|\*(.*))?$/i.exec(text)
+    if (!keyMatch) {
+      return fail(
+        command ? `Unknown command "${name}"` : `Invalid step "${text}"`,
+        offset,
+      )
+    }
+    const [, keyName, holdDuration, repetitions] = keyMatch
+    const durationOffset = offset + text.lastIndexOf(`:`) + 1
+    // Numbers are sent digit by digit
+    const isNumber = /^[0-9]+$/.test(keyName)
+    const key = toKey(keyName)
+    if (!isNumber && !key) {
+      return fail(`Unknown key "${keyName}"`, offset)
+    }
+    const keys = isNumber
+      ? [...keyName].map((k) => toKey(k) as KEYS)
+      : [key as KEYS]
+    if (holdDuration !== undefined) {
+      const duration = parseDuration(holdDuration.trim(), durationOffset)
+      return keys.map((key) => ({ type: `hold`, key, duration, delay }))
+    }
+    let count = 1
+    if (repetitions !== undefined) {
+      const countOffset = offset + text.lastIndexOf(`*`) + 1
+      if (!/^[1-9][0-9]*$/.test(repetitions)) {
+        fail(`Expected a number of repetitions`, countOffset)
+      }
+      count = parseInt(repetitions, 10)
+    }
+    const result: Array<MacroStep> = []
+    for (let i = 0; i < count; ++i) {
+      keys.forEach((key) => result.push({ type: `key`, key, delay }))
+    }
+    return result
+  }
+
+  for (const { text, offset } of tokenize(source)) {
+    steps.push(...parseStep(text, offset))
+  }
+  return steps
+}
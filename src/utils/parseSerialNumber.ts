@@ -12,6 +12,9 @@ const markets = {
   Q: `Germany`, // only for technology G
   A: `Asia`,
 } as const
+/**
+ * Year letters of the series until 2020 (e.g. UE40D6100, UE55RU7100)
+ */
 const years = {
   T: 2020, // TU: 2020
   R: 2019, // RU: 2019
@@ -31,16 +34,314 @@ const years = {
   B: 2009,
   A: 2008,
 } as const
+/**
+ * Year letters at the end of the series since 2018 (e.g. Q80T, QN90A, S95C)
+ */
+const suffixYears = {
+  N: 2018,
+  R: 2019,
+  T: 2020,
+  A: 2021,
+  B: 2022,
+  C: 2023,
+  D: 2024,
+  F: 2025,
+} as const
+
+export type ProductCategory = `TV` | `Projector` | `Soundbar`
+
+type Year = number | ReadonlyArray<number>
 
 export interface SamsungTVModel {
-  technology: typeof techs[keyof typeof techs]
-  technologyKey: keyof typeof techs
-  market: typeof markets[keyof typeof markets]
-  marketKey: keyof typeof markets
-  year: typeof years[keyof typeof years]
-  yearKey: keyof typeof years
-  size: number
+  category: ProductCategory
+  /**
+   * Product line like Neo QLED, OLED, The Frame or Crystal UHD
+   */
+  line?: string
+  series?: string
+  technology?: typeof techs[keyof typeof techs]
+  technologyKey?: keyof typeof techs
+  market?: typeof markets[keyof typeof markets]
+  marketKey?: keyof typeof markets
+  year: Year
+  yearKey?: string
+  size?: number
   rest: string
+  /**
+   * How certain the parsed infos are between 0 and 1
+   */
+  confidence: number
+}
+
+type ModelInfo = Pick<
+  SamsungTVModel,
+  `category` | `line` | `series` | `year` | `yearKey` | `confidence`
+>
+
+interface ModelRule {
+  pattern: RegExp
+  parse: (match: RegExpExecArray) => ModelInfo | null
+}
+
+const suffixYear = (
+  key: string | undefined,
+  info: Omit<ModelInfo, `year` | `yearKey`>,
+): ModelInfo | null => {
+  const year = key ? suffixYears[key] : undefined
+  return year ? { ...info, year, yearKey: key } : null
+}
+
+/**
+ * Rules for the series part of TV model codes (after market and size),
+ * checked in order. The first one that matches wins.
+ */
+const tvRules: Array<ModelRule> = [
+  // Neo QLED since 2021: QN90A, QN85B, QN900C, QN90F
+  {
+    pattern: /^QN([0-9]{2,3})([A-F])/,
+    parse: ([series, size, key]) =>
+      suffixYear(key, {
+        category: `TV`,
+        line: size.length === 3 ? `Neo QLED 8K` : `Neo QLED`,
+        series,
+        confidence: 0.95,
+      }),
+  },
+  // OLED since 2022: S95B, S90C, S95D, S85F
+  {
+    pattern: /^S([0-9]{2})([A-F])/,
+    parse: ([series, , key]) =>
+      suffixYear(key, {
+        category: `TV`,
+        line: `OLED`,
+        series,
+        confidence: 0.95,
+      }),
+  },
+  // OLED 2013: KE55S9C
+  {
+    pattern: /^S9C?(?![0-9])/,
+    parse: ([series]) => ({
+      category: `TV`,
+      line: `OLED`,
+      series,
+      year: 2013,
+      yearKey: `F`,
+      confidence: 0.8,
+    }),
+  },
+  // Lifestyle TV's: The Serif (LS01), The Frame (LS03), The Sero (LS05), The Terrace (LST7)
+  {
+    pattern: /^LS(00?1|00?3|05|T7)([A-Z])?/,
+    parse: ([series, code, key]) => {
+      const lines: { [code: number]: string } = {
+        1: `The Serif`,
+        3: `The Frame`,
+        5: `The Sero`,
+      }
+      const line = code === `T7` ? `The Terrace` : lines[parseInt(code, 10)]
+      const year = key ? suffixYears[key] : undefined
+      if (year) {
+        return {
+          category: `TV`,
+          line,
+          series,
+          year,
+          yearKey: key,
+          confidence: 0.95,
+        }
+      }
+      // The first generations didn't have a year letter
+      const firstGeneration = { '001': [2015, 2016], '003': 2017 }[code]
+      return {
+        category: `TV`,
+        line,
+        series,
+        year: firstGeneration || years.LS,
+        yearKey: `LS`,
+        confidence: firstGeneration ? 0.8 : 0.4,
+      }
+    },
+  },
+  {
+    pattern: /^LS/,
+    parse: ([series]) => ({
+      category: `TV`,
+      series,
+      year: years.LS,
+      yearKey: `LS`,
+      confidence: 0.3,
+    }),
+  },
+  // QLED 2018: Q6FN, Q7FN, Q8DN, Q9FN
+  {
+    pattern: /^Q([6-9])[CDF]N/,
+    parse: ([series]) => ({
+      category: `TV`,
+      line: `QLED`,
+      series,
+      year: 2018,
+      yearKey: `N`,
+      confidence: 0.95,
+    }),
+  },
+  // QLED 2017: Q7F, Q8C, Q9F. 2025 uses the same names (Q7F, Q8F)
+  {
+    pattern: /^Q([6-9])(C|FAM)/,
+    parse: ([series]) => ({
+      category: `TV`,
+      line: `QLED`,
+      series: series.replace(/AM$/, ``),
+      year: 2017,
+      yearKey: `Q`,
+      confidence: 0.9,
+    }),
+  },
+  {
+    pattern: /^Q([6-9])F/,
+    parse: ([series]) => ({
+      category: `TV`,
+      line: `QLED`,
+      series,
+      year: [2017, 2025],
+      yearKey: `Q`,
+      confidence: 0.5,
+    }),
+  },
+  // QLED since 2019: Q60R, Q80T, Q950TS, Q70A, Q80C
+  {
+    pattern: /^Q([0-9]{2,3})([RTABCD])/,
+    parse: ([series, size, key]) =>
+      suffixYear(key, {
+        category: `TV`,
+        line: size.length === 3 ? `QLED 8K` : `QLED`,
+        series,
+        confidence: 0.95,
+      }),
+  },
+  {
+    pattern: /^Q/,
+    parse: ([series]) => ({
+      category: `TV`,
+      line: `QLED`,
+      series,
+      year: years.Q,
+      yearKey: `Q`,
+      confidence: 0.3,
+    }),
+  },
+  // Crystal UHD 2021-2024: AU7100, BU8000, CU7100, DU8500
+  {
+    pattern: /^([A-D])U([0-9]{4})/,
+    parse: ([series, key]) =>
+      suffixYear(key, {
+        category: `TV`,
+        line: `Crystal UHD`,
+        series,
+        confidence: 0.95,
+      }),
+  },
+  // Crystal UHD since 2025: U8000F
+  {
+    pattern: /^U([0-9]{4})([F])/,
+    parse: ([series, , key]) =>
+      suffixYear(key, {
+        category: `TV`,
+        line: `Crystal UHD`,
+        series,
+        confidence: 0.9,
+      }),
+  },
+  // Series until 2020 with the year letter first: D6100, ES6100, JU6400, TU7000
+  {
+    pattern: /^([A-FHJKMNRT])([A-Z]?[0-9]{3,4})?/,
+    parse: ([series, key, number]) => ({
+      category: `TV`,
+      series,
+      year: years[key],
+      yearKey: key,
+      confidence: number ? 0.9 : 0.6,
+    }),
+  },
+]
+
+/**
+ * Rules for products that aren't TV's. Matched against the whole model code.
+ */
+const productRules: Array<ModelRule> = [
+  // The Premiere: SP-LSP7T, SP-LSP9T. The Freestyle: SP-LSP3B
+  {
+    pattern: /^(?:SP-?)?(LSP([379])([A-Z]))/,
+    parse: ([, series, size, key]) =>
+      suffixYear(key, {
+        category: `Projector`,
+        line: size === `3` ? `The Freestyle` : `The Premiere`,
+        series,
+        confidence: 0.9,
+      }),
+  },
+  // The Freestyle 2nd Gen: SP-LFF3C
+  {
+    pattern: /^(?:SP-?)?(LFF3([A-Z]))/,
+    parse: ([, series, key]) =>
+      suffixYear(key, {
+        category: `Projector`,
+        line: `The Freestyle`,
+        series,
+        confidence: 0.9,
+      }),
+  },
+  // Q- and S-Series soundbars with the year at the end: HW-Q60R, HW-Q990B, HW-S800B
+  {
+    pattern: /^HW-?(([QS])[0-9]{2,3}([A-Z]))/,
+    parse: ([, series, line, key]) =>
+      suffixYear(key, {
+        category: `Soundbar`,
+        line: `${line}-Series`,
+        series,
+        confidence: 0.9,
+      }),
+  },
+  // Other soundbars with the year first: HW-K450, HW-N950, HW-T450, HW-A450, HW-B550
+  {
+    pattern: /^HW-?(([A-Z])[0-9]{3})/,
+    parse: ([, series, key]) => {
+      const year = `ABCD`.indexOf(key) !== -1 ? suffixYears[key] : years[key]
+      if (typeof year !== `number` || year < 2014) {
+        return null
+      }
+      return {
+        category: `Soundbar`,
+        series,
+        year,
+        yearKey: key,
+        confidence: 0.85,
+      }
+    },
+  },
+  {
+    pattern: /^HW-/,
+    parse: ([series]) => ({
+      category: `Soundbar`,
+      series,
+      year: [],
+      confidence: 0.3,
+    }),
+  },
+]
+
+const applyRules = (rules: Array<ModelRule>, code: string) => {
+  for (const { pattern, parse } of rules) {
+    const match = pattern.exec(code)
+    if (!match) {
+      continue
+    }
+    const info = parse(match)
+    if (info) {
+      return { info, rest: code.slice(match[0].length) }
+    }
+  }
+  return null
 }
 
 /**
@@ -50,31 +351,33 @@ export interface SamsungTVModel {
  * @param sn SerialNumber
  */
 export default (sn: string): SamsungTVModel | null => {
-  const techKeys = Object.keys(techs)
-  const marketKeys = Object.keys(markets)
-  const yearKeys = Object.keys(years)
-  const pattern = `^(${techKeys.join(`|`)})(${marketKeys.join(
-    `|`,
-  )})([0-9]+)(${yearKeys.join(`|`)})(.*)`
-  const re = new RegExp(pattern, `gi`)
+  const code = String(sn).trim().toUpperCase()
+
+  const product = applyRules(productRules, code)
+  if (product) {
+    return { ...product.info, rest: product.rest }
+  }
 
-  const matches = re.exec(sn)
+  // GU is used for LED TV's in Germany
+  const pattern = /^(?:(GU)|([UGQPLK])([NEQA]))([0-9]{2,3})(.*)$/
+  const matches = pattern.exec(code)
   if (!matches) {
     return null
   }
-  const tech = matches[1]
-  const market = matches[2]
-  const size = matches[3]
-  const year = matches[4]
-  const rest = matches[5]
+  const tech = (matches[1] ? `U` : matches[2]) as keyof typeof techs
+  const market = (matches[1] ? `Q` : matches[3]) as keyof typeof markets
+  const size = matches[4]
+  const tv = applyRules(tvRules, matches[5])
+  if (!tv) {
+    return null
+  }
   return {
+    ...tv.info,
     technology: techs[tech],
-    technologyKey: tech as keyof typeof techs,
+    technologyKey: tech,
     market: markets[market],
-    marketKey: market as keyof typeof markets,
+    marketKey: market,
     size: parseInt(size, 10),
-    year: years[year],
-    yearKey: year as keyof typeof years,
-    rest,
+    rest: tv.rest,
   }
 }
@@ -1,29 +1,35 @@
 import Remote from 'node-upnp-remote'
 import UPNP from 'node-upnp'
 import { Samsung, KEYS, APPS } from 'samsung-tv-control'
-import HJSamsungTv from 'samsung-remote-pin-paired'
 import { PLATFORM_NAME, PLUGIN_NAME } from '../settings'
-import parseSerialNumber from './parseSerialNumber'
+import { getDeviceProfile, getRemotePort, LEGACY_PORT } from './deviceProfile'
 import { Logger } from 'homebridge'
-import { DeviceConfig } from '../types/deviceConfig'
-import wait from './wait'
+import { DeviceConfig, Channel } from '../types/deviceConfig'
 import { decodeIdentity } from './identity'
 import chalk from 'chalk'
 import hasCapability from './hasCapability'
-
-const getRemoteConfig = (config: DeviceConfig) => {
-  const model = parseSerialNumber(config.modelName)
-  const { year = 2013 } = model || {}
-  const supportsLegacy = typeof year === `number` && year < 2014
-  const port = config.remoteControlPort || supportsLegacy ? 55000 : 8002
-  return {
-    mac: config.mac,
-    ip: config.lastKnownIp,
-    name: PLATFORM_NAME,
-    token: config.token,
-    port,
-  }
-}
+import { getConnection, requestToken } from './connection'
+import { getApplication, getPowerState, launchApplication } from './restApi'
+import wakeOnLan from './wakeOnLan'
+import { parseInstalledApps } from './installedApps'
+import wait from './wait'
+import { MacroStep } from './parseKeys'
+import { getChannelKeys } from './channels'
+import {
+  getChannelList,
+  setMainTVChannel,
+  getSourceList,
+  setMainTVSource,
+  isSourceType,
+} from './mainTVAgent'
+
+const getRemoteConfig = (config: DeviceConfig) => ({
+  mac: config.mac,
+  ip: config.lastKnownIp,
+  name: PLATFORM_NAME,
+  token: config.token,
+  port: getRemotePort(config),
+})
 
 /**
  * Checks if the token is supposed to be used with the H/J-Series library
@@ -45,92 +51,144 @@ const getIdentity = (config: DeviceConfig) => {
   return null
 }
 
+/**
+ * Tizen TV's (2016+) expose a REST API on port 8001
+ */
+export const supportsRestApi = (config: DeviceConfig) =>
+  getDeviceProfile(config.modelName).restApi && !getIdentity(config)
+
+type TokenRejectedListener = (config: DeviceConfig) => void
+type TokenChangedListener = (config: DeviceConfig, token: string) => void
+
+const tokenRejectedListeners: Array<TokenRejectedListener> = []
+const tokenChangedListeners: Array<TokenChangedListener> = []
+
+/**
+ * Registers a listener for TV's that rejected the token of the device
+ */
+export const onTokenRejected = (listener: TokenRejectedListener) => {
+  tokenRejectedListeners.push(listener)
+}
+
+/**
+ * Registers a listener for TV's that handed out a new token on connect,
+ * e.g. after a firmware update
+ */
+export const onTokenChanged = (listener: TokenChangedListener) => {
+  tokenChangedListeners.push(listener)
+}
+
+/**
+ * Returns the token of the device. Websocket TV's are asked for a token
+ * which the user has to allow on the TV. The others can only be paired
+ * with the CLI.
+ */
 export const getPairing = async (config: DeviceConfig, log: Logger) => {
   const { token, modelName } = config
   if (token) {
     return token
   }
-  const model = parseSerialNumber(modelName)
-  const { year = 2013 } = model || {}
-  const supportsLegacy = typeof year === `number` && year < 2014
-  if (supportsLegacy) {
+  const { pairing, year = 2013 } = getDeviceProfile(modelName)
+  if (pairing === `none`) {
     log.debug(
       `${config.name} - This TV probably won't need to be paired since it is from ${year} and should support the legacy protocol.` +
         chalk`If you can't control it you still can try pairing it however with {blue npx ${PLUGIN_NAME} pair2 ${config.lastKnownIp} ${config.mac}}`,
     )
     return null
   }
-  const { yearKey } = model || {}
-  if (yearKey === `J` || yearKey === `H`) {
+  if (pairing === `pin`) {
     log.info(
-      `${config.name} - This TV seems to be a ${yearKey}-Series.` +
+      `${config.name} - This TV seems to be an H/J-Series from ${year}.` +
         chalk`Please run {blue npx ${PLUGIN_NAME} pair1 ${config.lastKnownIp} ${config.mac}} to get a pairing token.`,
     )
-  } else {
+    return null
+  }
+  const { ip, mac, port } = getRemoteConfig(config)
+  // The legacy protocol doesn't know tokens
+  if (port === LEGACY_PORT) {
+    return null
+  }
+  if (!(await getActive(config))) {
     log.info(
-      chalk`${config.name} - Please run {blue npx ${PLUGIN_NAME} pair2 ${config.lastKnownIp} ${config.mac}} or` +
-        chalk`{blue npx ${PLUGIN_NAME} pair1 ${config.lastKnownIp} ${config.mac}} to get a pairing token.`,
+      `${config.name} - The TV is off. It will be paired once it is turned on.`,
     )
+    return null
   }
-  return null
+  log.info(
+    chalk`${config.name} - Requesting a pairing token. Please click {blue Allow} on your TV.`,
+  )
+  return requestToken({ ip, mac, port })
+}
+
+/**
+ * Returns the shared connection of the device so that
+ * keys don't require a new handshake each time
+ */
+const getDeviceConnection = (config: DeviceConfig) => {
+  const { ip, mac, token, port } = getRemoteConfig(config)
+  return getConnection(config.usn, {
+    ip,
+    mac,
+    token,
+    port,
+    identity: getIdentity(config),
+    onUnauthorized: () => {
+      tokenRejectedListeners.forEach((listener) => listener(config))
+    },
+    onToken: (newToken: string) => {
+      tokenChangedListeners.forEach((listener) => listener(config, newToken))
+    },
+  })
 }
 
 const sendKey = async (config: DeviceConfig, key: KEYS) => {
-  // Use H/J-Series lib when the token is an identity
-  const identity = getIdentity(config)
-  if (identity) {
-    const tv = new HJSamsungTv({
-      ip: config.lastKnownIp,
-      appId: `721b6fce-4ee6-48ba-8045-955a539edadb`,
-      userId: `654321`,
-    })
-    await tv.init(identity)
-    const connection = await tv.connect()
-    await tv.sendKey(key)
-    await connection.close()
-    return
-  }
-  // Otherwise use samsung-tv-control
-  const cfg = getRemoteConfig(config)
-  const control = new Samsung(cfg)
-  await control.sendKeyPromise(key)
-  control.closeConnection()
+  await getDeviceConnection(config).sendKeys([key])
 }
 
 export const sendKeys = async (config: DeviceConfig, keys: Array<KEYS>) => {
-  // Use H/J-Series lib when the token is an identity
-  const identity = getIdentity(config)
-  if (identity) {
-    const tv = new HJSamsungTv({
-      ip: config.lastKnownIp,
-      appId: `721b6fce-4ee6-48ba-8045-955a539edadb`,
-      userId: `654321`,
+  await getDeviceConnection(config).sendKeys(keys, config.delay)
+}
+
+/**
+ * Fetches the installed apps over the websocket
+ */
+export const getInstalledApps = async (config: DeviceConfig) => {
+  const data = await getDeviceConnection(config).emit(`ed.installedApp.get`)
+  return parseInstalledApps(data)
+}
+
+/**
+ * Only websocket TVs can open apps. Not even when H/J-Series
+ * TVs are paired with pin pairing.
+ */
+export const supportsApps = (config: DeviceConfig) =>
+  getDeviceProfile(config.modelName).apps && !getIdentity(config)
+
+/**
+ * Opens an app, optionally passing deep link data via `metaTag`
+ */
+export const openApp = async (
+  config: DeviceConfig,
+  app: APPS | string,
+  metaTag?: string,
+) => {
+  if (!supportsApps(config)) {
+    throw new Error(`Opening apps is not supported by this TV`)
+  }
+  if (metaTag) {
+    const { installedApps = [] } = config
+    const installedApp = installedApps.find((a) => a.appId === app)
+    await getDeviceConnection(config).emit(`ed.apps.launch`, {
+      appId: app,
+      // Native apps (type 4) like the browser don't take deep links
+      action_type:
+        installedApp && installedApp.type === 4 ? `NATIVE_LAUNCH` : `DEEP_LINK`,
+      metaTag,
     })
-    await tv.init(identity)
-    const connection = await tv.connect()
-    for (let i = 0; i < keys.length; ++i) {
-      const key = keys[i]
-      await tv.sendKey(key)
-      await wait(config.delay)
-    }
-    await connection.close()
     return
   }
-  // Otherwise use samsung-tv-control
-  const cfg = getRemoteConfig(config)
-  const control = new Samsung(cfg)
-  for (let i = 0; i < keys.length; ++i) {
-    const key = keys[i]
-    await control.sendKeyPromise(key)
-    await wait(config.delay)
-  }
-  control.closeConnection()
-}
-
-export const openApp = async (config: DeviceConfig, app: APPS) => {
-  const identity = getIdentity(config)
-  if (identity) {
-    // Not supported yet
+  if (supportsRestApi(config)) {
+    await launchApplication(config.lastKnownIp, app)
     return
   }
   const cfg = getRemoteConfig(config)
@@ -140,10 +198,10 @@ export const openApp = async (config: DeviceConfig, app: APPS) => {
 }
 
 const turnOn = async (config: DeviceConfig) => {
-  const cfg = getRemoteConfig(config)
-  const control = new Samsung(cfg)
-  await control.turnOn()
-  control.closeConnection()
+  await wakeOnLan(config.mac, {
+    address: config.wolBroadcastAddress,
+    port: config.wolPort,
+  })
 }
 
 // export const getDeviceInfo = async (config: DeviceConfig) => {
@@ -153,7 +211,37 @@ const turnOn = async (config: DeviceConfig) => {
 //   return info
 // }
 
+/**
+ * Returns the id of the app that is currently in the foreground
+ * or null when none of the apps is. The apps are checked one after
+ * another, so the most likely one should come first.
+ */
+export const getForegroundApp = async (
+  config: DeviceConfig,
+  appIds: Array<string>,
+) => {
+  for (const appId of appIds) {
+    const app = await getApplication(config.lastKnownIp, appId).catch(
+      () => null,
+    )
+    if (app && app.visible) {
+      return appId
+    }
+  }
+  return null
+}
+
 export const getActive = async (config: DeviceConfig) => {
+  // Tizen TV's answer pings in network standby as well
+  // so ask them for their power state instead
+  if (supportsRestApi(config)) {
+    try {
+      const powerState = await getPowerState(config.lastKnownIp)
+      return powerState === null || powerState === `on`
+    } catch (err) {
+      return false
+    }
+  }
   const cfg = getRemoteConfig(config)
   const control = new Samsung(cfg)
   let available = false
@@ -166,6 +254,29 @@ export const getActive = async (config: DeviceConfig) => {
   return available
 }
 
+/**
+ * Waits until the TV answers after it was turned on and keeps sending
+ * magic packets in the meantime. Resolves false when it didn't answer in time.
+ */
+export const waitForActive = async (
+  config: DeviceConfig,
+  timeout = config.powerOnTimeout || 1000 * 20,
+) => {
+  const start = Date.now()
+  let lastWake = start
+  while (Date.now() - start < timeout) {
+    await wait(1000)
+    if (await getActive(config)) {
+      return true
+    }
+    if (Date.now() - lastWake >= 1000 * 5) {
+      await turnOn(config)
+      lastWake = Date.now()
+    }
+  }
+  return false
+}
+
 export const setActive = async (config: DeviceConfig, active: boolean) => {
   const isActive = await getActive(config)
   if (active === isActive) {
@@ -176,7 +287,123 @@ export const setActive = async (config: DeviceConfig, active: boolean) => {
   } else {
     const identity = getIdentity(config)
     const key = identity ? KEYS.KEY_POWER : KEYS.KEY_POWEROFF
-    sendKey(config, key)
+    await sendKey(config, key)
+  }
+}
+
+const runMacroStep = async (config: DeviceConfig, step: MacroStep) => {
+  switch (step.type) {
+    case `key`:
+      await sendKey(config, step.key)
+      break
+    case `hold`:
+      await getDeviceConnection(config).holdKey(step.key, step.duration)
+      break
+    case `wait`:
+      await wait(step.duration)
+      break
+    case `app`:
+      await openApp(config, step.appId, step.metaTag)
+      break
+    case `power`:
+      if (!step.active) {
+        await setActive(config, false)
+      } else if (!(await getActive(config))) {
+        await turnOn(config)
+        if (!(await waitForActive(config))) {
+          throw new Error(`${config.name} did not turn on`)
+        }
+      }
+      break
+    case `if`:
+      if ((await getActive(config)) === step.active) {
+        await runMacroStep(config, step.step)
+      }
+      break
+  }
+}
+
+/**
+ * Runs the steps of a macro parsed by `parseMacro`
+ */
+export const runMacro = async (
+  config: DeviceConfig,
+  steps: Array<MacroStep>,
+) => {
+  for (let i = 0; i < steps.length; ++i) {
+    let step = steps[i]
+    await runMacroStep(config, step)
+    // Keys are sent with a delay in between
+    if (step.type === `if`) {
+      step = step.step
+    }
+    if ((step.type === `key` || step.type === `hold`) && i < steps.length - 1) {
+      await wait(step.delay === undefined ? config.delay : step.delay)
+    }
+  }
+}
+
+/**
+ * Fetches the channel list of TV's that support the MainTVAgent2 service
+ */
+export const getChannels = async (config: DeviceConfig) => {
+  const { mainTVAgentLocation } = config
+  if (!mainTVAgentLocation || !hasCapability(config, `GetChannelList`)) {
+    return null
+  }
+  return getChannelList(mainTVAgentLocation)
+}
+
+/**
+ * Switches to the channel via upnp and types its number otherwise
+ */
+export const setChannel = async (config: DeviceConfig, channel: Channel) => {
+  const { mainTVAgentLocation } = config
+  if (
+    channel.upnp &&
+    mainTVAgentLocation &&
+    hasCapability(config, `SetMainTVChannel`)
+  ) {
+    try {
+      await setMainTVChannel(mainTVAgentLocation, channel.upnp)
+      return
+    } catch (err) {
+      // Fall back to the keys
+    }
+  }
+  await sendKeys(config, getChannelKeys(channel.number))
+}
+
+/**
+ * Fetches the sources of TV's that support the MainTVAgent2 service
+ */
+export const getSources = async (config: DeviceConfig) => {
+  const { mainTVAgentLocation } = config
+  if (!mainTVAgentLocation || !hasCapability(config, `GetSourceList`)) {
+    return null
+  }
+  return getSourceList(mainTVAgentLocation)
+}
+
+/**
+ * Switches to a source like `HDMI1` via upnp. Resolves false when
+ * that isn't possible so that the caller can fall back to keys.
+ */
+export const setSource = async (config: DeviceConfig, type: string) => {
+  const { mainTVAgentLocation } = config
+  if (!mainTVAgentLocation || !hasCapability(config, `SetMainTVSource`)) {
+    return false
+  }
+  try {
+    const sources = await getSourceList(mainTVAgentLocation)
+    const source = sources.find((s) => isSourceType(s, type))
+    if (!source) {
+      return false
+    }
+    await setMainTVSource(mainTVAgentLocation, source)
+    return true
+  } catch (err) {
+    return false
   }
 }
 
@@ -306,8 +533,21 @@ export const exit = async (config: DeviceConfig) => {
   await sendKey(config, KEYS.KEY_HOME)
 }
 
-export const playPause = async (config: DeviceConfig) => {
-  await sendKey(config, KEYS.KEY_PLAY) // PAUSE?
+// The skip keys jump to the next / previous chapter or track in most apps
+export const nextTrack = async (config: DeviceConfig) => {
+  await sendKey(config, KEYS.KEY_FF_)
+}
+
+export const previousTrack = async (config: DeviceConfig) => {
+  await sendKey(config, KEYS.KEY_REWIND_)
+}
+
+/**
+ * Samsung remotes have separate keys for play and pause
+ * so the caller has to keep track of the state
+ */
+export const playPause = async (config: DeviceConfig, playing: boolean) => {
+  await sendKey(config, playing ? KEYS.KEY_PLAY : KEYS.KEY_PAUSE)
 }
 
 export const info = async (config: DeviceConfig) => {
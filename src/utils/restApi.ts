@@ -0,0 +1,110 @@
+import http from 'http'
+
+/**
+ * Port of the REST API of Tizen TV's (2016+)
+ */
+export const REST_PORT = 8001
+
+export type PowerState = `on` | `standby`
+
+export interface DeviceInfo {
+  id: string
+  name: string
+  type: string
+  uri: string
+  version: string
+  device: {
+    /**
+     * Only reported by models from 2018 on
+     */
+    PowerState?: PowerState
+    FrameTVSupport?: string
+    TokenAuthSupport?: string
+    OS: string
+    duid: string
+    firmwareVersion: string
+    id: string
+    ip: string
+    model: string
+    modelName: string
+    name: string
+    networkType: string
+    resolution: string
+    type: string
+    wifiMac: string
+  }
+}
+
+export interface ApplicationStatus {
+  id: string
+  name: string
+  running: boolean
+  visible: boolean
+  version: string
+}
+
+const requestJson = <T>(url: string, method = `GET`, timeout = 3000) =>
+  new Promise<T>((resolve, reject) => {
+    const req = http.request(url, { method, timeout }, (res) => {
+      const chunks: Array<Buffer> = []
+      res.on(`data`, (chunk) => chunks.push(chunk))
+      res.on(`end`, () => {
+        const { statusCode = 0 } = res
+        if (statusCode < 200 || statusCode >= 300) {
+          reject(new Error(`${method} ${url} failed with ${statusCode}`))
+          return
+        }
+        const body = Buffer.concat(chunks).toString()
+        try {
+          resolve(body.length ? JSON.parse(body) : undefined)
+        } catch (err) {
+          reject(err)
+        }
+      })
+    })
+    req.on(`timeout`, () => {
+      req.destroy(new Error(`${method} ${url} timed out`))
+    })
+    req.on(`error`, reject)
+    req.end()
+  })
+
+const getBaseUrl = (ip: string, port = REST_PORT) =>
+  `http://${ip}:${port}/api/v2`
+
+/**
+ * Returns the state of an installed app. `visible` is true
+ * when the app is in the foreground.
+ */
+export const getApplication = (ip: string, appId: string, port?: number) =>
+  requestJson<ApplicationStatus>(
+    `${getBaseUrl(ip, port)}/applications/${encodeURIComponent(appId)}`,
+  )
+
+/**
+ * Returns infos like the model name and power state of the TV
+ */
+export const getDeviceInfo = (ip: string, port?: number) =>
+  requestJson<DeviceInfo>(`${getBaseUrl(ip, port)}/`)
+
+/**
+ * Returns the power state or null when the TV doesn't report it
+ */
+export const getPowerState = async (ip: string, port?: number) => {
+  const { device } = await getDeviceInfo(ip, port)
+  return device && device.PowerState ? device.PowerState : null
+}
+
+/**
+ * Starts an installed app
+ */
+export const launchApplication = async (
+  ip: string,
+  appId: string,
+  port?: number,
+) => {
+  await requestJson<unknown>(
+    `${getBaseUrl(ip, port)}/applications/${encodeURIComponent(appId)}`,
+    `POST`,
+  )
+}
@@ -0,0 +1,173 @@
+import dgram from 'dgram'
+import { Logger } from 'homebridge'
+import filterUSN from './filterUSN'
+
+export type NotificationType = `alive` | `byebye`
+
+export interface SsdpNotification {
+  type: NotificationType
+  /**
+   * Unique id of the device without the service suffix
+   */
+  usn: string
+  /**
+   * Notification types (NT) of the device or its services
+   */
+  nts: Array<string>
+  location?: string
+  address: string
+}
+
+export type SsdpNotificationListener = (notification: SsdpNotification) => void
+
+export interface NotifySettings {
+  address: string
+  port: number
+  /**
+   * Devices send several notifications at once (one per service) so the
+   * ones within this many ms are combined before passing them on
+   */
+  debounce: number
+}
+
+const DEFAULT_SETTINGS: NotifySettings = {
+  address: `239.255.255.250`,
+  port: 1900,
+  debounce: 500,
+}
+
+/**
+ * Parses an ssdp:alive or ssdp:byebye NOTIFY message. Returns null
+ * for search requests, responses and other notifications.
+ */
+export const parseNotify = (message: string, address: string) => {
+  const [requestLine, ...lines] = message.split(/\r?\n/)
+  if (!/^NOTIFY \* HTTP\/1\.[01]$/i.test(requestLine.trim())) {
+    return null
+  }
+  const headers: { [name: string]: string } = {}
+  for (const line of lines) {
+    const idx = line.indexOf(`:`)
+    if (idx > 0) {
+      headers[line.slice(0, idx).trim().toUpperCase()] = line
+        .slice(idx + 1)
+        .trim()
+    }
+  }
+  const nts = (headers.NTS || ``).toLowerCase()
+  if ((nts !== `ssdp:alive` && nts !== `ssdp:byebye`) || !headers.USN) {
+    return null
+  }
+  const notification: SsdpNotification = {
+    type: nts === `ssdp:alive` ? `alive` : `byebye`,
+    usn: filterUSN(headers.USN),
+    nts: headers.NT ? [headers.NT] : [],
+    address,
+  }
+  if (headers.LOCATION) {
+    notification.location = headers.LOCATION
+  }
+  return notification
+}
+
+/**
+ * Listens on the SSDP multicast group for devices announcing
+ * themselves (ssdp:alive) or leaving the network (ssdp:byebye)
+ */
+export class SsdpNotifyListener {
+  private socket: dgram.Socket | null = null
+  private readonly pending: {
+    [usn: string]: { notification: SsdpNotification; timer: NodeJS.Timeout }
+  } = {}
+
+  constructor(
+    private readonly log?: Logger,
+    private readonly settings: NotifySettings = DEFAULT_SETTINGS,
+  ) {}
+
+  /**
+   * Joins the multicast group on the given interface addresses
+   * or on all interfaces when none are given
+   */
+  public async start(
+    listener: SsdpNotificationListener,
+    interfaceAddresses: Array<string> = [],
+  ) {
+    if (this.socket) {
+      return
+    }
+    const socket = dgram.createSocket({ type: `udp4`, reuseAddr: true })
+    socket.on(`message`, (msg, rinfo) => {
+      const notification = parseNotify(msg.toString(), rinfo.address)
+      if (notification) {
+        this.queue(notification, listener)
+      }
+    })
+    await new Promise<void>((resolve, reject) => {
+      socket.once(`error`, reject)
+      socket.bind(this.settings.port, () => {
+        socket.removeListener(`error`, reject)
+        resolve()
+      })
+    })
+    socket.on(`error`, (err) => {
+      this.log?.debug(`SSDP listener error`, err.message)
+    })
+    const memberships = interfaceAddresses.length
+      ? interfaceAddresses
+      : [undefined]
+    for (const iface of memberships) {
+      try {
+        socket.addMembership(this.settings.address, iface)
+      } catch (err) {
+        this.log?.debug(
+          `Could not join ${this.settings.address} on ${
+            iface || `all interfaces`
+          }`,
+          err.message,
+        )
+      }
+    }
+    socket.unref()
+    this.socket = socket
+  }
+
+  public close() {
+    for (const usn of Object.keys(this.pending)) {
+      clearTimeout(this.pending[usn].timer)
+      delete this.pending[usn]
+    }
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+  }
+
+  private queue(
+    notification: SsdpNotification,
+    listener: SsdpNotificationListener,
+  ) {
+    const { usn } = notification
+    const pending = this.pending[usn]
+    if (pending) {
+      clearTimeout(pending.timer)
+      if (pending.notification.type === notification.type) {
+        notification.nts = [
+          ...pending.notification.nts,
+          ...notification.nts.filter(
+            (nt) => pending.notification.nts.indexOf(nt) === -1,
+          ),
+        ]
+        if (!notification.location) {
+          notification.location = pending.notification.location
+        }
+      }
+    }
+    const timer = setTimeout(() => {
+      delete this.pending[usn]
+      listener(notification)
+    }, this.settings.debounce)
+    timer.unref()
+    this.pending[usn] = { notification, timer }
+  }
+}
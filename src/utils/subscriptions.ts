@@ -0,0 +1,372 @@
+import http from 'http'
+import os from 'os'
+import { URL } from 'url'
+import { AddressInfo } from 'net'
+import UPNP from 'node-upnp'
+import { decodeEntities } from './xml'
+import { Logger } from 'homebridge'
+
+export interface RenderingState {
+  volume?: number
+  mute?: boolean
+  brightness?: number
+}
+
+export type RenderingStateListener = (state: RenderingState) => void
+
+export interface SubscriptionSettings {
+  /**
+   * Requested subscription duration in seconds
+   */
+  timeout: number
+  /**
+   * Seconds before the subscription expires to renew it
+   */
+  renewMargin: number
+  /**
+   * Seconds to wait before subscribing again after a failure
+   */
+  retryInterval: number
+}
+
+interface Subscription {
+  location: string
+  listener: RenderingStateListener
+  eventSubURL?: string
+  sid?: string
+  timer?: NodeJS.Timeout
+}
+
+const DEFAULT_SETTINGS: SubscriptionSettings = {
+  timeout: 300,
+  renewMargin: 30,
+  retryInterval: 60,
+}
+
+/**
+ * Extracts volume, mute and brightness from the (escaped) LastChange
+ * event of the RenderingControl service
+ */
+export const parseLastChange = (body: string) => {
+  const state: RenderingState = {}
+  const lastChange = /<LastChange>([\s\S]*?)<\/LastChange>/.exec(body)
+  if (!lastChange) {
+    return state
+  }
+  const event = decodeEntities(lastChange[1])
+  const re = /<(Volume|Mute|Brightness)\b([^>]*?)\/?>/g
+  let match: RegExpExecArray | null
+  while ((match = re.exec(event))) {
+    const [, name, attributes] = match
+    const channel = /channel="([^"]*)"/.exec(attributes)
+    const val = /val="([^"]*)"/.exec(attributes)
+    if (!val || (channel && channel[1] !== `Master`)) {
+      continue
+    }
+    switch (name) {
+      case `Volume`:
+        state.volume = parseInt(val[1], 10)
+        break
+      case `Mute`:
+        state.mute = val[1] === `1` || val[1] === `true`
+        break
+      case `Brightness`:
+        state.brightness = parseInt(val[1], 10)
+        break
+    }
+  }
+  return state
+}
+
+const ipToNumber = (ip: string) =>
+  ip.split(`.`).reduce((n, part) => (n << 8) + parseInt(part, 10), 0) >>> 0
+
+/**
+ * Returns the local ipv4 address that is in the same subnet as the remote ip
+ * so that the TV is able to reach the callback server
+ */
+export const getLocalAddress = (remoteIp: string) => {
+  const interfaces = os.networkInterfaces()
+  let fallback: string | undefined
+  for (const name of Object.keys(interfaces)) {
+    for (const info of interfaces[name] || []) {
+      if (info.family !== `IPv4` && (info.family as unknown) !== 4) {
+        continue
+      }
+      const mask = ipToNumber(info.netmask)
+      if (
+        (ipToNumber(info.address) & mask) >>> 0 ===
+        (ipToNumber(remoteIp) & mask) >>> 0
+      ) {
+        return info.address
+      }
+      if (!info.internal && !fallback) {
+        fallback = info.address
+      }
+    }
+  }
+  return fallback || `127.0.0.1`
+}
+
+const request = (
+  url: string,
+  method: string,
+  headers: http.OutgoingHttpHeaders,
+) =>
+  new Promise<http.IncomingMessage>((resolve, reject) => {
+    const req = http.request(url, { method, headers, timeout: 5000 }, (res) => {
+      res.resume()
+      resolve(res)
+    })
+    req.on(`timeout`, () => {
+      req.destroy(new Error(`${method} ${url} timed out`))
+    })
+    req.on(`error`, reject)
+    req.end()
+  })
+
+const parseTimeout = (timeout?: string | string[]) => {
+  const match = /Second-([0-9]+)/i.exec(String(timeout))
+  return match ? parseInt(match[1], 10) : DEFAULT_SETTINGS.timeout
+}
+
+/**
+ * Subscribes to the RenderingControl events of the TV's (UPnP GENA) and
+ * notifies the listeners whenever volume, mute or brightness changed
+ */
+export class RenderingControlEvents {
+  private server: http.Server | null = null
+  /**
+   * Resolves once the callback server listens, shared by concurrent subscribes
+   */
+  private listening: Promise<http.Server> | null = null
+  private readonly subscriptions: { [usn: string]: Subscription } = {}
+  /**
+   * Events that arrived before the response to their SUBSCRIBE, the TV's
+   * send the initial state right away
+   */
+  private pendingNotifies: { [sid: string]: Array<string> } = {}
+
+  constructor(
+    private readonly log?: Logger,
+    private readonly settings: SubscriptionSettings = DEFAULT_SETTINGS,
+  ) {}
+
+  /**
+   * Subscribes to the events of a device. Calling it again with another
+   * location (e.g. after the ip changed) moves the subscription.
+   */
+  public async subscribe(
+    usn: string,
+    location: string,
+    listener: RenderingStateListener,
+  ) {
+    const subscription = this.subscriptions[usn]
+    if (subscription && subscription.location === location) {
+      subscription.listener = listener
+      return
+    }
+    if (subscription) {
+      await this.unsubscribe(usn)
+    }
+    this.subscriptions[usn] = { location, listener }
+    await this.start(usn)
+  }
+
+  /**
+   * Moves the subscription of a device to a new location
+   */
+  public async update(usn: string, location: string) {
+    const subscription = this.subscriptions[usn]
+    if (!subscription || subscription.location === location) {
+      return
+    }
+    await this.subscribe(usn, location, subscription.listener)
+  }
+
+  public async unsubscribe(usn: string) {
+    const subscription = this.subscriptions[usn]
+    if (!subscription) {
+      return
+    }
+    delete this.subscriptions[usn]
+    if (subscription.timer) {
+      clearTimeout(subscription.timer)
+    }
+    const { eventSubURL, sid } = subscription
+    if (eventSubURL && sid) {
+      try {
+        await request(eventSubURL, `UNSUBSCRIBE`, { SID: sid })
+      } catch (err) {
+        // The TV might be off already
+      }
+    }
+  }
+
+  public async close() {
+    await Promise.all(
+      Object.keys(this.subscriptions).map((usn) => this.unsubscribe(usn)),
+    )
+    if (this.server) {
+      this.server.close()
+      this.server = null
+    }
+    this.listening = null
+  }
+
+  private async start(usn: string) {
+    const subscription = this.subscriptions[usn]
+    if (!subscription) {
+      return
+    }
+    try {
+      if (!subscription.eventSubURL) {
+        subscription.eventSubURL = await this.getEventSubURL(
+          subscription.location,
+        )
+      }
+      await this.sendSubscribe(usn, subscription)
+      this.log?.debug(`Subscribed to RenderingControl events of ${usn}`)
+    } catch (err) {
+      this.log?.debug(
+        `Could not subscribe to RenderingControl events of ${usn}`,
+        err.message,
+      )
+      this.schedule(subscription, this.settings.retryInterval, () =>
+        this.start(usn),
+      )
+    }
+  }
+
+  private async renew(usn: string) {
+    const subscription = this.subscriptions[usn]
+    if (!subscription) {
+      return
+    }
+    try {
+      await this.sendSubscribe(usn, subscription, true)
+    } catch (err) {
+      // The subscription expired or the TV restarted so subscribe again
+      subscription.sid = undefined
+      await this.start(usn)
+    }
+  }
+
+  private async getEventSubURL(location: string) {
+    const upnp = new UPNP({ url: location })
+    const { services = {} } = await upnp.getDeviceDescription()
+    const serviceId = Object.keys(services).find(
+      (s) => s.indexOf(`RenderingControl`) !== -1,
+    )
+    if (!serviceId) {
+      throw new Error(`RenderingControl service not found`)
+    }
+    return services[serviceId].eventSubURL as string
+  }
+
+  private async sendSubscribe(
+    usn: string,
+    subscription: Subscription,
+    renew = false,
+  ) {
+    const url = subscription.eventSubURL as string
+    const headers: http.OutgoingHttpHeaders = {
+      TIMEOUT: `Second-${this.settings.timeout}`,
+    }
+    if (renew && subscription.sid) {
+      headers.SID = subscription.sid
+    } else {
+      const server = await this.getServer()
+      const { port } = server.address() as AddressInfo
+      const address = getLocalAddress(new URL(url).hostname)
+      headers.CALLBACK = `<http://${address}:${port}/>`
+      headers.NT = `upnp:event`
+    }
+    const res = await request(url, `SUBSCRIBE`, headers)
+    if (res.statusCode !== 200 || !res.headers.sid) {
+      throw new Error(`SUBSCRIBE failed with status ${res.statusCode}`)
+    }
+    const sid = res.headers.sid as string
+    subscription.sid = sid
+    const pending = this.pendingNotifies[sid] || []
+    delete this.pendingNotifies[sid]
+    pending.forEach((body) => this.handleNotify(sid, body))
+    if (!this.isSubscribing()) {
+      this.pendingNotifies = {}
+    }
+    const timeout = parseTimeout(res.headers.timeout)
+    this.schedule(
+      subscription,
+      Math.max(timeout - this.settings.renewMargin, 1),
+      () => this.renew(usn),
+    )
+  }
+
+  private schedule(
+    subscription: Subscription,
+    seconds: number,
+    fn: () => Promise<void>,
+  ) {
+    if (subscription.timer) {
+      clearTimeout(subscription.timer)
+    }
+    subscription.timer = setTimeout(fn, seconds * 1000)
+    subscription.timer.unref()
+  }
+
+  private getServer() {
+    if (!this.listening) {
+      this.listening = this.listen().catch((err) => {
+        this.listening = null
+        throw err
+      })
+    }
+    return this.listening
+  }
+
+  private async listen() {
+    const server = http.createServer((req, res) => {
+      const chunks: Array<Buffer> = []
+      req.on(`data`, (chunk) => chunks.push(chunk))
+      req.on(`end`, () => {
+        res.end()
+        this.handleNotify(
+          req.headers.sid as string,
+          Buffer.concat(chunks).toString(),
+        )
+      })
+    })
+    this.server = server
+    await new Promise<void>((resolve, reject) => {
+      server.once(`error`, reject)
+      server.listen(0, () => {
+        server.removeListener(`error`, reject)
+        resolve()
+      })
+    })
+    server.unref()
+    return server
+  }
+
+  private isSubscribing() {
+    return Object.keys(this.subscriptions).some(
+      (usn) => !this.subscriptions[usn].sid,
+    )
+  }
+
+  private handleNotify(sid: string, body: string) {
+    const usn = Object.keys(this.subscriptions).find(
+      (u) => this.subscriptions[u].sid === sid,
+    )
+    if (!usn) {
+      if (this.isSubscribing()) {
+        this.pendingNotifies[sid] = [...(this.pendingNotifies[sid] || []), body]
+      }
+      return
+    }
+    const state = parseLastChange(body)
+    if (Object.keys(state).length) {
+      this.subscriptions[usn].listener(state)
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  parseChannelXml,
+  parseChannelList,
+  parseM3U,
+  parseCSV,
+  parseChannelFile,
+  getChannelKeys,
+} from '../channels'
+
+const channelXml = (major: number, minor: number, name: string) =>
+  `<Channel><ChType>CDTV</ChType><MajorCh>${major}</MajorCh><MinorCh>${minor}</MinorCh>` +
+  `<PTC>35</PTC><ProgNum>12</ProgNum><ChName>${name}</ChName></Channel>`
+
+describe(`channels`, () => {
+  it(`parses channels of the MainTVAgent2 service`, () => {
+    expect(parseChannelXml(channelXml(10, 65534, `ZDF HD`))).toEqual({
+      number: `10`,
+      name: `ZDF HD`,
+      upnp: channelXml(10, 65534, `ZDF HD`),
+    })
+    expect(parseChannelXml(channelXml(7, 1, `ABC &amp; Friends`))).toEqual(
+      expect.objectContaining({ number: `7-1`, name: `ABC & Friends` }),
+    )
+    expect(parseChannelXml(`<Channel><ChType>CDTV</ChType></Channel>`)).toEqual(
+      null,
+    )
+  })
+
+  it(`parses channel lists`, () => {
+    const list =
+      `<?xml version="1.0" encoding="UTF-8" ?><ChannelList>` +
+      channelXml(1, 65534, `Das Erste HD`) +
+      channelXml(2, 65534, `ZDF HD`) +
+      `</ChannelList>`
+    expect(
+      parseChannelList(list).map(({ number, name }) => [number, name]),
+    ).toEqual([
+      [`1`, `Das Erste HD`],
+      [`2`, `ZDF HD`],
+    ])
+    expect(parseChannelList(`<ChannelList></ChannelList>`)).toEqual([])
+  })
+
+  it(`parses M3U playlists`, () => {
+    const playlist = [
+      `#EXTM3U`,
+      `#EXTINF:-1 tvg-chno="101" tvg-name="Das Erste",Das Erste HD`,
+      `http://192.168.1.2/1`,
+      `#EXTINF:-1,ZDF HD`,
+      `http://192.168.1.2/2`,
+      ``,
+    ].join(`\r\n`)
+    expect(parseM3U(playlist)).toEqual([
+      { number: `101`, name: `Das Erste HD` },
+      { number: `2`, name: `ZDF HD` },
+    ])
+  })
+
+  it(`parses CSV files`, () => {
+    const csv = [
+      `number,name`,
+      `1,Das Erste HD`,
+      `2; "ZDF, HD"`,
+      `5.1,KQED`,
+      `invalid line`,
+    ].join(`\n`)
+    expect(parseCSV(csv)).toEqual([
+      { number: `1`, name: `Das Erste HD` },
+      { number: `2`, name: `ZDF, HD` },
+      { number: `5-1`, name: `KQED` },
+    ])
+  })
+
+  it(`parses channel files by their extension`, () => {
+    expect(parseChannelFile(`1,ARD`, `/tmp/channels.csv`)).toEqual([
+      { number: `1`, name: `ARD` },
+    ])
+    expect(parseChannelFile(`#EXTINF:-1,ARD`, `channels.M3U`)).toEqual([
+      { number: `1`, name: `ARD` },
+    ])
+    expect(() => parseChannelFile(`1,ARD`, `channels.xml`)).toThrow()
+  })
+
+  it(`types channel numbers`, () => {
+    expect(getChannelKeys(`102`)).toEqual([
+      `KEY_1`,
+      `KEY_0`,
+      `KEY_2`,
+      `KEY_ENTER`,
+    ])
+    expect(getChannelKeys(`7-1`)).toEqual([
+      `KEY_7`,
+      `KEY_PLUS100`,
+      `KEY_1`,
+      `KEY_ENTER`,
+    ])
+  })
+})
@@ -0,0 +1,302 @@
+import WebSocket from 'ws'
+import { AddressInfo } from 'net'
+import { KEYS } from 'samsung-tv-control'
+import {
+  DeviceConnection,
+  ConnectionOptions,
+  requestToken,
+  UnauthorizedError,
+  NoTokenError,
+} from '../connection'
+
+const settings = {
+  idleTimeout: 200,
+  connectTimeout: 500,
+  retries: 2,
+  backoff: 10,
+  maxBackoff: 50,
+}
+
+describe(`DeviceConnection`, () => {
+  let server: WebSocket.Server
+  let connects: number
+  let received: Array<string>
+  let options: ConnectionOptions
+
+  beforeEach(async () => {
+    connects = 0
+    received = []
+    server = new WebSocket.Server({ port: 0 })
+    server.on(`connection`, (ws) => {
+      connects++
+      ws.send(JSON.stringify({ event: `ms.channel.connect`, data: {} }))
+      ws.on(`message`, (message) => {
+        const { method, params } = JSON.parse(message.toString())
+        if (method === `ms.channel.emit`) {
+          ws.send(
+            JSON.stringify({
+              event: params.event,
+              data: { data: [{ appId: `111299001912`, name: `YouTube` }] },
+            }),
+          )
+          return
+        }
+        received.push(
+          params.Cmd === `Click`
+            ? params.DataOfCmd
+            : `${params.Cmd} ${params.DataOfCmd}`,
+        )
+      })
+    })
+    await new Promise((resolve) => server.on(`listening`, resolve))
+    const { port } = server.address() as AddressInfo
+    options = {
+      ip: `127.0.0.1`,
+      mac: `00:00:00:00:00:00`,
+      port,
+      secure: false,
+    }
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  const waitForKeys = async (count: number) => {
+    for (let i = 0; i < 50 && received.length < count; ++i) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+  }
+
+  it(`reuses one session for multiple calls`, async () => {
+    const connection = new DeviceConnection(options, settings)
+    await connection.sendKeys([KEYS.KEY_UP])
+    await connection.sendKeys([KEYS.KEY_DOWN, KEYS.KEY_ENTER], 10)
+    await waitForKeys(3)
+    expect(received).toEqual([`KEY_UP`, `KEY_DOWN`, `KEY_ENTER`])
+    expect(connects).toEqual(1)
+    connection.close()
+  })
+
+  it(`keeps the order of concurrent calls`, async () => {
+    const connection = new DeviceConnection(options, settings)
+    await Promise.all([
+      connection.sendKeys([KEYS.KEY_1, KEYS.KEY_2], 10),
+      connection.sendKeys([KEYS.KEY_3]),
+    ])
+    await waitForKeys(3)
+    expect(received).toEqual([`KEY_1`, `KEY_2`, `KEY_3`])
+    expect(connects).toEqual(1)
+    connection.close()
+  })
+
+  it(`closes idle sessions and reconnects`, async () => {
+    const connection = new DeviceConnection(options, settings)
+    await connection.sendKeys([KEYS.KEY_UP])
+    expect(connection.isOpen).toEqual(true)
+    await new Promise((resolve) => setTimeout(resolve, 300))
+    expect(connection.isOpen).toEqual(false)
+    await connection.sendKeys([KEYS.KEY_DOWN])
+    await waitForKeys(2)
+    expect(received).toEqual([`KEY_UP`, `KEY_DOWN`])
+    expect(connects).toEqual(2)
+    connection.close()
+  })
+
+  it(`holds keys`, async () => {
+    const connection = new DeviceConnection(options, settings)
+    const start = Date.now()
+    await connection.holdKey(KEYS.KEY_POWER, 100)
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90)
+    await waitForKeys(2)
+    expect(received).toEqual([`Press KEY_POWER`, `Release KEY_POWER`])
+    connection.close()
+  })
+
+  it(`resolves emitted events with the answer`, async () => {
+    const connection = new DeviceConnection(options, settings)
+    await connection.sendKeys([KEYS.KEY_UP])
+    const answer = await connection.emit(`ed.installedApp.get`)
+    expect(answer).toEqual({
+      data: [{ appId: `111299001912`, name: `YouTube` }],
+    })
+    expect(connects).toEqual(1)
+    connection.close()
+  })
+
+  it(`reconnects when the ip changes`, async () => {
+    const connection = new DeviceConnection(options, settings)
+    await connection.sendKeys([KEYS.KEY_UP])
+    connection.update({ ...options, ip: `localhost` })
+    await connection.sendKeys([KEYS.KEY_DOWN])
+    expect(connects).toEqual(2)
+    connection.close()
+  })
+
+  it(`gives up after the configured retries`, async () => {
+    const connection = new DeviceConnection({ ...options, port: 1 }, settings)
+    await expect(connection.sendKeys([KEYS.KEY_UP])).rejects.toBeTruthy()
+    expect(connection.isOpen).toEqual(false)
+  })
+
+  it(`rejects unauthorized connections`, async () => {
+    server.removeAllListeners(`connection`)
+    server.on(`connection`, (ws) => {
+      connects++
+      ws.send(JSON.stringify({ event: `ms.channel.unauthorized` }))
+    })
+    const connection = new DeviceConnection(options, {
+      ...settings,
+      retries: 0,
+    })
+    await expect(connection.sendKeys([KEYS.KEY_UP])).rejects.toThrow(
+      /not authorized/,
+    )
+    expect(connects).toEqual(1)
+  })
+
+  it(`reports new tokens the TV hands out`, async () => {
+    server.removeAllListeners(`connection`)
+    server.on(`connection`, (ws) => {
+      connects++
+      ws.send(
+        JSON.stringify({
+          event: `ms.channel.connect`,
+          data: { token: 87654321 },
+        }),
+      )
+    })
+    const onToken = jest.fn()
+    const connection = new DeviceConnection(
+      { ...options, token: `12345678`, onToken },
+      settings,
+    )
+    await connection.sendKeys([KEYS.KEY_UP])
+    expect(onToken).toHaveBeenCalledWith(`87654321`)
+    // Updating the options with the new token keeps the session
+    connection.update({ ...options, token: `87654321`, onToken })
+    await connection.sendKeys([KEYS.KEY_DOWN])
+    expect(connects).toEqual(1)
+    expect(onToken).toHaveBeenCalledTimes(1)
+    connection.close()
+  })
+
+  it(`keeps the session when the caller sticks to its token`, async () => {
+    server.removeAllListeners(`connection`)
+    server.on(`connection`, (ws) => {
+      connects++
+      ws.send(
+        JSON.stringify({
+          event: `ms.channel.connect`,
+          data: { token: 87654321 },
+        }),
+      )
+    })
+    const onToken = jest.fn()
+    const connection = new DeviceConnection(
+      { ...options, token: `12345678`, onToken },
+      settings,
+    )
+    await connection.sendKeys([KEYS.KEY_UP])
+    connection.update({ ...options, token: `12345678`, onToken })
+    await connection.sendKeys([KEYS.KEY_DOWN])
+    expect(connects).toEqual(1)
+    expect(onToken).toHaveBeenCalledTimes(1)
+    connection.close()
+  })
+
+  it(`doesn't report the token that was used`, async () => {
+    server.removeAllListeners(`connection`)
+    server.on(`connection`, (ws) => {
+      ws.send(
+        JSON.stringify({
+          event: `ms.channel.connect`,
+          data: { token: `12345678` },
+        }),
+      )
+    })
+    const onToken = jest.fn()
+    const connection = new DeviceConnection(
+      { ...options, token: `12345678`, onToken },
+      settings,
+    )
+    await connection.sendKeys([KEYS.KEY_UP])
+    expect(onToken).not.toHaveBeenCalled()
+    connection.close()
+  })
+
+  it(`doesn't retry rejected tokens`, async () => {
+    server.removeAllListeners(`connection`)
+    server.on(`connection`, (ws) => {
+      connects++
+      ws.send(JSON.stringify({ event: `ms.channel.unauthorized` }))
+    })
+    const onUnauthorized = jest.fn()
+    const connection = new DeviceConnection(
+      { ...options, token: `12345678`, onUnauthorized },
+      settings,
+    )
+    await expect(connection.sendKeys([KEYS.KEY_UP])).rejects.toBeInstanceOf(
+      UnauthorizedError,
+    )
+    expect(connects).toEqual(1)
+    expect(onUnauthorized).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe(`requestToken`, () => {
+  let server: WebSocket.Server
+  let options: ConnectionOptions
+  let urls: Array<string>
+
+  beforeEach(async () => {
+    urls = []
+    server = new WebSocket.Server({ port: 0 })
+    await new Promise((resolve) => server.on(`listening`, resolve))
+    const { port } = server.address() as AddressInfo
+    options = {
+      ip: `127.0.0.1`,
+      mac: `00:00:00:00:00:00`,
+      port,
+      secure: false,
+      token: `12345678`,
+    }
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  const answer = (message: Record<string, unknown>) => {
+    server.on(`connection`, (ws, req) => {
+      urls.push(req.url || ``)
+      ws.send(JSON.stringify(message))
+    })
+  }
+
+  it(`resolves with the token the TV hands out`, async () => {
+    answer({ event: `ms.channel.connect`, data: { token: 87654321 } })
+    expect(await requestToken(options, 500)).toEqual(`87654321`)
+    // The old token must not be sent along
+    expect(urls[0]).not.toMatch(/token=/)
+  })
+
+  it(`rejects when the user didn't allow the remote`, async () => {
+    answer({ event: `ms.channel.unauthorized` })
+    await expect(requestToken(options, 500)).rejects.toBeInstanceOf(
+      UnauthorizedError,
+    )
+  })
+
+  it(`rejects when the TV doesn't hand out a token`, async () => {
+    answer({ event: `ms.channel.connect`, data: {} })
+    await expect(requestToken(options, 500)).rejects.toBeInstanceOf(
+      NoTokenError,
+    )
+  })
+
+  it(`times out`, async () => {
+    server.on(`connection`, () => undefined)
+    await expect(requestToken(options, 100)).rejects.toThrow(/Timed out/)
+  })
+})
@@ -0,0 +1,100 @@
+import { getDeviceProfile, getRemotePort } from '../deviceProfile'
+
+describe(`getDeviceProfile`, () => {
+  test.each([
+    [`LE32A456C2D`, 2008],
+    [`UE40B6000`, 2009],
+    [`UN40C5000`, 2010],
+    [`UE40D6100`, 2011],
+    [`UE46ES6100`, 2012],
+    [`UE40F6400`, 2013],
+  ])(`uses the legacy protocol for %s`, (model, year) => {
+    expect(getDeviceProfile(model)).toEqual({
+      protocol: `legacy`,
+      port: 55000,
+      fallbackPorts: [8001, 8002],
+      pairing: `none`,
+      wakeOnLan: false,
+      apps: false,
+      restApi: false,
+      year,
+    })
+  })
+
+  test.each([
+    [`UE40H6400`, 2014],
+    [`UE55HU7500`, 2014],
+    [`UE40J6300`, 2015],
+    [`UE48JS9000`, 2015],
+  ])(`uses pin pairing for the H/J-Series %s`, (model, year) => {
+    expect(getDeviceProfile(model)).toEqual({
+      protocol: `encrypted`,
+      port: 8001,
+      fallbackPorts: [55000],
+      pairing: `pin`,
+      wakeOnLan: true,
+      apps: false,
+      restApi: false,
+      year,
+    })
+  })
+
+  test.each([
+    [`UE49KS7000`, 2016],
+    [`UE55MU6179`, 2017],
+    [`UE55NU7179`, 2018],
+    [`UE55RU7179`, 2019],
+    [`UN55TU7000FXZA`, 2020],
+    [`QE55QN90AATXXU`, 2021],
+    [`QE55S95BATXXU`, 2022],
+    [`QE50LS03C`, 2023],
+    [`UE65DU7100`, 2024],
+    [`QE65QN90F`, 2025],
+    [`SP-LSP3BLAXXE`, 2022],
+  ])(`uses the websocket remote for %s`, (model, year) => {
+    expect(getDeviceProfile(model)).toEqual({
+      protocol: `websocket`,
+      port: 8002,
+      fallbackPorts: [8001, 55000],
+      pairing: `token`,
+      wakeOnLan: true,
+      apps: true,
+      restApi: true,
+      year,
+    })
+  })
+
+  it(`uses the newest possible year of ambiguous models`, () => {
+    const profile = getDeviceProfile(`QE55Q7FAAUXXU`)
+    expect(profile.protocol).toEqual(`websocket`)
+    expect(profile.year).toEqual(2025)
+    expect(getDeviceProfile(`UE40LS001`).protocol).toEqual(`websocket`)
+  })
+
+  it(`treats unknown models like legacy TVs`, () => {
+    expect(getDeviceProfile(`laskdnalskndla`).protocol).toEqual(`legacy`)
+    expect(getDeviceProfile(undefined).protocol).toEqual(`legacy`)
+    expect(getDeviceProfile(undefined).year).toBeUndefined()
+  })
+
+  it(`doesn't share the fallback ports between profiles`, () => {
+    getDeviceProfile(`UE40D6100`).fallbackPorts.push(1234)
+    expect(getDeviceProfile(`UE40D6100`).fallbackPorts).toEqual([8001, 8002])
+  })
+})
+
+describe(`getRemotePort`, () => {
+  it(`prefers the configured port`, () => {
+    expect(getRemotePort({ modelName: `UE40D6100` })).toEqual(55000)
+    expect(
+      getRemotePort({ modelName: `UE40D6100`, remoteControlPort: 8001 }),
+    ).toEqual(8001)
+    expect(getRemotePort({ modelName: `UE55RU7179` })).toEqual(8002)
+    expect(
+      getRemotePort({ modelName: `UE55RU7179`, remoteControlPort: 8001 }),
+    ).toEqual(8001)
+    expect(
+      getRemotePort({ modelName: `UE55RU7179`, remoteControlPort: 55000 }),
+    ).toEqual(55000)
+  })
+})
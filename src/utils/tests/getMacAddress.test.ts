@@ -0,0 +1,103 @@
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import { AddressInfo } from 'net'
+import {
+  normalizeMac,
+  parseProcNetArp,
+  parseIpNeigh,
+  parseArp,
+  parseDescriptionMac,
+  getDescriptionMac,
+  getRestApiMac,
+} from '../getMacAddress'
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, `fixtures`, name), `utf8`)
+
+describe(`normalizeMac`, () => {
+  it(`pads and lower cases the bytes`, () => {
+    expect(normalizeMac(`8C:79:F5:1:A:C3`)).toEqual(`8c:79:f5:01:0a:c3`)
+    expect(normalizeMac(`b8-bc-68-ad-bb-b8`)).toEqual(`b8:bc:68:ad:bb:b8`)
+  })
+
+  it(`rejects invalid addresses`, () => {
+    expect(normalizeMac(undefined)).toEqual(null)
+    expect(normalizeMac(`(incomplete)`)).toEqual(null)
+    expect(normalizeMac(`00:00:00:00:00:00`)).toEqual(null)
+    expect(normalizeMac(`ff:ff:ff:ff:ff:ff`)).toEqual(null)
+    expect(normalizeMac(`b8:bc:68:ad:bb`)).toEqual(null)
+  })
+})
+
+describe(`neighbor tables`, () => {
+  it(`parses /proc/net/arp`, () => {
+    const contents = fixture(`proc-net-arp.txt`)
+    expect(parseProcNetArp(contents, `192.168.1.5`)).toEqual(
+      `b8:bc:68:ad:bb:b8`,
+    )
+    expect(parseProcNetArp(contents, `10.0.20.5`)).toEqual(`8c:79:f5:01:0a:c3`)
+    expect(parseProcNetArp(contents, `192.168.1.20`)).toEqual(null)
+    expect(parseProcNetArp(contents, `192.168.1.99`)).toEqual(null)
+  })
+
+  it(`parses ip neigh`, () => {
+    const output = fixture(`ip-neigh.txt`)
+    expect(parseIpNeigh(output, `192.168.1.5`)).toEqual(`b8:bc:68:ad:bb:b8`)
+    expect(parseIpNeigh(output, `192.168.1.20`)).toEqual(null)
+    expect(parseIpNeigh(output, `192.168.1.99`)).toEqual(null)
+  })
+
+  it(`parses arp on macOS and windows`, () => {
+    const darwin = fixture(`arp-darwin.txt`)
+    expect(parseArp(darwin, `192.168.1.5`)).toEqual(`b8:bc:68:ad:bb:b8`)
+    expect(parseArp(darwin, `10.0.20.5`)).toEqual(`8c:79:f5:01:0a:c3`)
+    expect(parseArp(darwin, `192.168.1.20`)).toEqual(null)
+
+    const win32 = fixture(`arp-win32.txt`)
+    expect(parseArp(win32, `192.168.1.5`)).toEqual(`b8:bc:68:ad:bb:b8`)
+    expect(parseArp(win32, `192.168.1.255`)).toEqual(null)
+  })
+})
+
+describe(`device infos`, () => {
+  let server: http.Server
+  let port: number
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === `/dmr`) {
+        res.setHeader(`Content-Type`, `text/xml`)
+        res.end(fixture(`dmr.xml`))
+        return
+      }
+      if (req.url === `/api/v2/`) {
+        res.end(fixture(`rest-api.json`))
+        return
+      }
+      res.statusCode = 404
+      res.end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, `127.0.0.1`, resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it(`parses the mac address of device descriptions`, async () => {
+    expect(parseDescriptionMac(fixture(`dmr.xml`))).toEqual(`b8:bc:68:ad:bb:b8`)
+    expect(parseDescriptionMac(`<root><device></device></root>`)).toEqual(null)
+    expect(await getDescriptionMac(`http://127.0.0.1:${port}/dmr`)).toEqual(
+      `b8:bc:68:ad:bb:b8`,
+    )
+    await expect(
+      getDescriptionMac(`http://127.0.0.1:${port}/unknown`),
+    ).rejects.toThrow(/404/)
+  })
+
+  it(`gets the wifi mac of Tizen TV's`, async () => {
+    expect(await getRestApiMac(`127.0.0.1`, port)).toEqual(`b8:bc:68:ad:bb:b8`)
+  })
+})
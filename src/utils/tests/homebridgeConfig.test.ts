@@ -0,0 +1,170 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  findDeviceEntry,
+  readConfig,
+  setDeviceEntry,
+  writeDeviceEntry,
+} from '../homebridgeConfig'
+
+const fixturePath = (name: string) => path.join(__dirname, `fixtures`, name)
+const fixture = (name: string) =>
+  JSON.parse(fs.readFileSync(fixturePath(name), `utf8`))
+
+const USN = `uuid:068e7780-006e-1000-bb4d-b8bc68adbbb8`
+
+describe(`setDeviceEntry`, () => {
+  it(`updates the token of a configured device`, () => {
+    const { config, created } = setDeviceEntry(fixture(`config.json`), {
+      usn: `${USN}::urn:samsung.com:device:RemoteControlReceiver:1`,
+      name: `[TV] Samsung 7 Series (55)`,
+      token: `87654321`,
+    })
+    expect(created).toEqual(false)
+    expect(config.platforms && config.platforms[1].devices).toEqual([
+      {
+        usn: `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+        name: `Bedroom TV`,
+        token: `12345678`,
+      },
+      { usn: USN, name: `Living Room TV`, token: `87654321` },
+    ])
+  })
+
+  it(`adds unknown devices`, () => {
+    const { config, created } = setDeviceEntry(fixture(`config.json`), {
+      usn: `uuid:0f2a7b61-25f0-4e4b-9c7c-6b3a4e1f2d11`,
+      name: `[TV] Kitchen`,
+      token: `42`,
+    })
+    expect(created).toEqual(true)
+    const devices = (config.platforms && config.platforms[1].devices) || []
+    expect(devices.length).toEqual(3)
+    expect(devices[2]).toEqual({
+      usn: `uuid:0f2a7b61-25f0-4e4b-9c7c-6b3a4e1f2d11`,
+      name: `[TV] Kitchen`,
+      token: `42`,
+    })
+  })
+
+  it(`creates the platform block`, () => {
+    const { config } = setDeviceEntry(fixture(`config-without-platform.json`), {
+      usn: USN,
+      token: `42`,
+    })
+    expect(config.platforms).toEqual([
+      { platform: `config`, name: `Config`, port: 8581 },
+      { platform: `SamsungTVControl`, devices: [{ usn: USN, token: `42` }] },
+    ])
+    expect(setDeviceEntry({}, { usn: USN }).config).toEqual({
+      platforms: [{ platform: `SamsungTVControl`, devices: [{ usn: USN }] }],
+    })
+  })
+
+  it(`removes the port and token of the old pairing`, () => {
+    const config = fixture(`config.json`)
+    config.platforms[1].devices[1].remoteControlPort = 8001
+    config.platforms[1].devices[1].token = `12345678`
+    setDeviceEntry(config, { usn: USN, modelName: `UE55RU7179`, token: `42` })
+    expect(config.platforms[1].devices[1]).toEqual({
+      usn: USN,
+      name: `Living Room TV`,
+      modelName: `UE55RU7179`,
+      token: `42`,
+    })
+  })
+
+  it(`matches devices by ip when the usn is unknown`, () => {
+    const config = fixture(`config.json`)
+    config.platforms[1].devices[1].lastKnownIp = `192.168.1.2`
+    const { created } = setDeviceEntry(config, { token: `42` }, `192.168.1.2`)
+    expect(created).toEqual(false)
+    expect(config.platforms[1].devices[1]).toEqual({
+      usn: USN,
+      name: `Living Room TV`,
+      lastKnownIp: `192.168.1.2`,
+      token: `42`,
+    })
+  })
+
+  it(`requires a usn`, () => {
+    expect(() => setDeviceEntry({}, { token: `42` })).toThrow(/usn/)
+    expect(() =>
+      setDeviceEntry(fixture(`config.json`), { token: `42` }, `192.168.1.2`),
+    ).toThrow(/usn/)
+  })
+})
+
+describe(`findDeviceEntry`, () => {
+  it(`finds the device by its usn`, () => {
+    const config = fixture(`config.json`)
+    expect(findDeviceEntry(config, `${USN}::upnp:rootdevice`)).toEqual({
+      usn: USN,
+      name: `Living Room TV`,
+    })
+    expect(findDeviceEntry(config, `uuid:unknown`)).toEqual(null)
+    expect(
+      findDeviceEntry(fixture(`config-without-platform.json`), USN),
+    ).toEqual(null)
+  })
+})
+
+describe(`writeDeviceEntry`, () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), `samsungtv-config-`))
+  })
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(dir)) {
+      fs.unlinkSync(path.join(dir, file))
+    }
+    fs.rmdirSync(dir)
+  })
+
+  it(`writes the token and backs up the old config`, async () => {
+    const configPath = path.join(dir, `config.json`)
+    fs.copyFileSync(fixturePath(`config.json`), configPath)
+
+    const { backupPath, created } = await writeDeviceEntry(
+      { usn: USN, token: `87654321` },
+      configPath,
+    )
+    expect(created).toEqual(false)
+    expect(fs.readFileSync(backupPath, `utf8`)).toEqual(
+      fs.readFileSync(fixturePath(`config.json`), `utf8`),
+    )
+    const config = JSON.parse(fs.readFileSync(configPath, `utf8`))
+    expect(config.bridge).toEqual(fixture(`config.json`).bridge)
+    expect(config.platforms[1].devices[1]).toEqual({
+      usn: USN,
+      name: `Living Room TV`,
+      token: `87654321`,
+    })
+  })
+
+  it(`reads the config`, async () => {
+    expect(await readConfig(fixturePath(`config.json`))).toEqual(
+      fixture(`config.json`),
+    )
+    const configPath = path.join(dir, `config.json`)
+    fs.writeFileSync(configPath, `[]`)
+    await expect(readConfig(configPath)).rejects.toThrow(
+      /not a homebridge config/,
+    )
+  })
+
+  it(`doesn't touch invalid configs`, async () => {
+    const configPath = path.join(dir, `config.json`)
+    fs.writeFileSync(configPath, `{ "platforms": [`)
+    await expect(
+      writeDeviceEntry({ usn: USN, token: `42` }, configPath),
+    ).rejects.toThrow(/Could not read the config/)
+    expect(fs.readdirSync(dir)).toEqual([`config.json`])
+    await expect(
+      writeDeviceEntry({ usn: USN }, path.join(dir, `missing.json`)),
+    ).rejects.toThrow(/Could not read the config/)
+  })
+})
@@ -0,0 +1,49 @@
+import { parseInstalledApps, filterApps } from '../installedApps'
+
+const apps = [
+  { appId: `111299001912`, name: `YouTube`, type: 2 },
+  { appId: `3201907018807`, name: `Netflix`, type: 2 },
+  { appId: `org.tizen.browser`, name: `Internet`, type: 4 },
+]
+
+describe(`parseInstalledApps`, () => {
+  it(`maps the answer of ed.installedApp.get`, () => {
+    expect(
+      parseInstalledApps({
+        data: [
+          {
+            appId: `111299001912`,
+            app_type: 2,
+            icon: `/opt/share/webappservice/apps_icon/FirstScreen/111299001912/250x250.png`,
+            is_lock: 0,
+            name: `YouTube`,
+          },
+          { appId: `broken` },
+        ],
+      }),
+    ).toEqual([apps[0]])
+  })
+
+  it(`ignores invalid answers`, () => {
+    expect(parseInstalledApps(undefined)).toEqual([])
+    expect(parseInstalledApps({ data: `nope` })).toEqual([])
+  })
+})
+
+describe(`filterApps`, () => {
+  it(`returns all apps without lists`, () => {
+    expect(filterApps(apps)).toEqual(apps)
+  })
+
+  it(`includes apps by name or id`, () => {
+    expect(filterApps(apps, [`youtube`, `org.tizen.browser`])).toEqual([
+      apps[0],
+      apps[2],
+    ])
+  })
+
+  it(`excludes apps by name or id`, () => {
+    expect(filterApps(apps, [], [`NETFLIX`])).toEqual([apps[0], apps[2]])
+    expect(filterApps(apps, [`YouTube`], [`111299001912`])).toEqual([])
+  })
+})
@@ -0,0 +1,221 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  getActions,
+  getChannelList,
+  setMainTVChannel,
+  parseSourceList,
+  isSourceType,
+  getSourceList,
+  setMainTVSource,
+} from '../mainTVAgent'
+
+const deviceDescription = `<?xml version="1.0"?>
+<root xmlns="urn:schemas-upnp-org:device-1-0">
+  <device>
+    <deviceType>urn:samsung.com:device:MainTVServer2:1</deviceType>
+    <friendlyName>[TV] Samsung</friendlyName>
+    <modelName>UE40D6100</modelName>
+    <serviceList>
+      <service>
+        <serviceType>urn:samsung.com:service:MainTVAgent2:1</serviceType>
+        <serviceId>urn:samsung.com:serviceId:MainTVAgent2</serviceId>
+        <SCPDURL>/smp_3_</SCPDURL>
+        <controlURL>/smp_4_</controlURL>
+        <eventSubURL>/smp_5_</eventSubURL>
+      </service>
+      <service>
+        <serviceType>urn:samsung.com:service:MultiScreenService:1</serviceType>
+        <serviceId>urn:samsung.com:serviceId:MultiScreenService</serviceId>
+        <SCPDURL>/smp_6_</SCPDURL>
+        <controlURL>/smp_7_</controlURL>
+        <eventSubURL>/smp_8_</eventSubURL>
+      </service>
+    </serviceList>
+  </device>
+</root>`
+
+const action = (name: string, inputs: Array<string>, outputs: Array<string>) =>
+  `<action><name>${name}</name><argumentList>` +
+  inputs
+    .map(
+      (arg) =>
+        `<argument><name>${arg}</name><direction>in</direction><relatedStateVariable>A_ARG_TYPE_${arg}</relatedStateVariable></argument>`,
+    )
+    .join(``) +
+  outputs
+    .map(
+      (arg) =>
+        `<argument><name>${arg}</name><direction>out</direction><relatedStateVariable>A_ARG_TYPE_${arg}</relatedStateVariable></argument>`,
+    )
+    .join(``) +
+  `</argumentList></action>`
+
+const setChannelAction = action(
+  `SetMainTVChannel`,
+  [`ChannelListType`, `SatelliteID`, `Channel`],
+  [`Result`],
+)
+
+const serviceDescription = `<?xml version="1.0"?>
+<scpd xmlns="urn:schemas-upnp-org:service-1-0">
+  <actionList>
+    ${action(`GetChannelList`, [], [`Result`, `ChannelList`])}
+    ${setChannelAction}
+    ${action(`GetSourceList`, [], [`Result`, `SourceList`])}
+    ${action(`SetMainTVSource`, [`Source`, `ID`, `UiID`], [`Result`])}
+  </actionList>
+  <serviceStateTable>
+    <stateVariable sendEvents="no"><name>A_ARG_TYPE_Result</name><dataType>string</dataType></stateVariable>
+    <stateVariable sendEvents="no"><name>A_ARG_TYPE_ChannelList</name><dataType>string</dataType></stateVariable>
+    <stateVariable sendEvents="no"><name>A_ARG_TYPE_SourceList</name><dataType>string</dataType></stateVariable>
+  </serviceStateTable>
+</scpd>`
+
+const escape = (str: string) =>
+  str.replace(/&/g, `&amp;`).replace(/</g, `&lt;`).replace(/>/g, `&gt;`)
+
+const channel = `<Channel><ChType>CDTV</ChType><MajorCh>2</MajorCh><MinorCh>65534</MinorCh><ChName>ZDF HD</ChName></Channel>`
+
+const sourceList =
+  `<?xml version="1.0" encoding="UTF-8" ?><SourceList>` +
+  `<CurrentSourceType>HDMI1/DVI</CurrentSourceType><CurrentSourceID>57</CurrentSourceID>` +
+  `<Source><SourceType>TV</SourceType><ID>0</ID><Editable>No</Editable>` +
+  `<DeviceName></DeviceName><Connected>Yes</Connected><SupportView>Yes</SupportView></Source>` +
+  `<Source><SourceType>HDMI1/DVI</SourceType><ID>57</ID><Editable>Yes</Editable>` +
+  `<DeviceName>PlayStation 4</DeviceName><Connected>Yes</Connected><SupportView>Yes</SupportView></Source>` +
+  `<Source><SourceType>HDMI2</SourceType><ID>58</ID><Editable>Yes</Editable>` +
+  `<DeviceName></DeviceName><Connected>No</Connected><SupportView>Yes</SupportView></Source>` +
+  `</SourceList>`
+
+const soapResponse = (name: string, body: string) =>
+  `<?xml version="1.0" encoding="utf-8"?>` +
+  `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>` +
+  `<u:${name}Response xmlns:u="urn:samsung.com:service:MainTVAgent2:1">${body}</u:${name}Response>` +
+  `</s:Body></s:Envelope>`
+
+describe(`mainTVAgent`, () => {
+  let server: http.Server
+  let location: string
+  let requests: Array<{ action: string; body: string }>
+  let result: string
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Array<Buffer> = []
+      req.on(`data`, (chunk) => chunks.push(chunk))
+      req.on(`end`, () => {
+        res.setHeader(`Content-Type`, `text/xml`)
+        if (req.url === `/smp_2_`) {
+          res.end(deviceDescription)
+          return
+        }
+        if (req.url === `/smp_3_`) {
+          res.end(serviceDescription)
+          return
+        }
+        const action = /#(\w+)"/.exec(req.headers.soapaction as string)![1]
+        requests.push({ action, body: Buffer.concat(chunks).toString() })
+        if (action === `GetChannelList`) {
+          res.end(
+            soapResponse(
+              action,
+              `<Result>${result}</Result><ChannelList>${escape(
+                `<?xml version="1.0" encoding="UTF-8" ?><ChannelList>${channel}</ChannelList>`,
+              )}</ChannelList>`,
+            ),
+          )
+          return
+        }
+        if (action === `GetSourceList`) {
+          res.end(
+            soapResponse(
+              action,
+              `<Result>${result}</Result><SourceList>${escape(
+                sourceList,
+              )}</SourceList>`,
+            ),
+          )
+          return
+        }
+        res.end(soapResponse(action, `<Result>${result}</Result>`))
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, `127.0.0.1`, resolve))
+    const { port } = server.address() as AddressInfo
+    location = `http://127.0.0.1:${port}/smp_2_`
+  })
+
+  beforeEach(() => {
+    requests = []
+    result = `OK`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it(`lists the supported actions`, async () => {
+    expect(await getActions(location)).toEqual([
+      `GetChannelList`,
+      `SetMainTVChannel`,
+      `GetSourceList`,
+      `SetMainTVSource`,
+    ])
+  })
+
+  it(`fetches the channel list`, async () => {
+    expect(await getChannelList(location)).toEqual([
+      { number: `2`, name: `ZDF HD`, upnp: channel },
+    ])
+  })
+
+  it(`switches channels`, async () => {
+    await setMainTVChannel(location, channel)
+    expect(requests.length).toEqual(1)
+    expect(requests[0].action).toEqual(`SetMainTVChannel`)
+    expect(requests[0].body).toContain(`<ChannelListType>B</ChannelListType>`)
+    expect(requests[0].body).toContain(`<Channel>${escape(channel)}</Channel>`)
+  })
+
+  it(`parses source lists`, () => {
+    expect(parseSourceList(sourceList)).toEqual([
+      { type: `TV`, id: 0, name: `TV`, connected: true, active: false },
+      {
+        type: `HDMI1/DVI`,
+        id: 57,
+        name: `PlayStation 4`,
+        connected: true,
+        active: true,
+      },
+      { type: `HDMI2`, id: 58, name: `HDMI2`, connected: false, active: false },
+    ])
+    expect(parseSourceList(`<SourceList></SourceList>`)).toEqual([])
+  })
+
+  it(`matches source types`, () => {
+    const source = { type: `HDMI1/DVI`, id: 57, name: `PlayStation 4` }
+    expect(isSourceType(source, `HDMI1`)).toEqual(true)
+    expect(isSourceType(source, `hdmi1`)).toEqual(true)
+    expect(isSourceType(source, `HDMI2`)).toEqual(false)
+  })
+
+  it(`fetches sources and switches to them`, async () => {
+    const sources = await getSourceList(location)
+    expect(sources.map(({ name }) => name)).toEqual([
+      `TV`,
+      `PlayStation 4`,
+      `HDMI2`,
+    ])
+    await setMainTVSource(location, sources[2])
+    expect(requests[1].action).toEqual(`SetMainTVSource`)
+    expect(requests[1].body).toContain(`<Source>HDMI2</Source><ID>58</ID>`)
+  })
+
+  it(`rejects failed actions`, async () => {
+    result = `NOTOK_InvalidCh`
+    await expect(setMainTVChannel(location, channel)).rejects.toThrow(
+      /NOTOK_InvalidCh/,
+    )
+  })
+})
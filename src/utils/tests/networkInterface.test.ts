@@ -0,0 +1,40 @@
+import os from 'os'
+import getInterfaceAddresses from '../networkInterface'
+
+const info = (address: string, family: `IPv4` | `IPv6`, internal = false) =>
+  ({
+    address,
+    family,
+    internal,
+    netmask: family === `IPv4` ? `255.255.255.0` : `ffff:ffff:ffff:ffff::`,
+    mac: `21:2f:b7:1f:df:f0`,
+    cidr: null,
+  } as os.NetworkInterfaceInfo)
+
+const interfaces = {
+  lo: [info(`127.0.0.1`, `IPv4`, true), info(`::1`, `IPv6`, true)],
+  eth0: [info(`192.168.1.10`, `IPv4`), info(`fe80::1`, `IPv6`)],
+  eth1: [info(`10.0.20.2`, `IPv4`), info(`10.0.20.3`, `IPv4`)],
+}
+
+describe(`networkInterface`, () => {
+  it(`returns the ipv4 addresses of an interface name`, () => {
+    expect(getInterfaceAddresses(`eth0`, interfaces)).toEqual([`192.168.1.10`])
+    expect(getInterfaceAddresses(` eth1 `, interfaces)).toEqual([
+      `10.0.20.2`,
+      `10.0.20.3`,
+    ])
+  })
+
+  it(`accepts an address of the interface`, () => {
+    expect(getInterfaceAddresses(`10.0.20.3`, interfaces)).toEqual([
+      `10.0.20.3`,
+    ])
+  })
+
+  it(`rejects unknown and internal interfaces`, () => {
+    expect(() => getInterfaceAddresses(`wlan0`, interfaces)).toThrow(/wlan0/)
+    expect(() => getInterfaceAddresses(`lo`, interfaces)).toThrow()
+    expect(() => getInterfaceAddresses(`fe80::1`, interfaces)).toThrow()
+  })
+})
@@ -0,0 +1,81 @@
+import { getConfigSnippet, getPairingAttempts } from '../pairing'
+
+describe(`getPairingAttempts`, () => {
+  it(`starts with the legacy protocol for old TVs`, () => {
+    expect(getPairingAttempts(`UE40D6100`)).toEqual([
+      { method: `legacy`, port: 55000 },
+      { method: `token`, port: 8002 },
+      { method: `token`, port: 8001 },
+      { method: `pin` },
+    ])
+  })
+
+  it(`starts with pin pairing for H/J-Series TVs`, () => {
+    expect(getPairingAttempts(`UE40J6300`)).toEqual([
+      { method: `pin` },
+      { method: `token`, port: 8001 },
+      { method: `token`, port: 8002 },
+      { method: `legacy`, port: 55000 },
+    ])
+  })
+
+  it(`starts with token pairing for Tizen TVs`, () => {
+    expect(getPairingAttempts(`QE55QN90AATXXU`)).toEqual([
+      { method: `token`, port: 8002 },
+      { method: `token`, port: 8001 },
+      { method: `pin` },
+      { method: `legacy`, port: 55000 },
+    ])
+  })
+
+  it(`tries all methods for unknown models`, () => {
+    expect(getPairingAttempts(undefined).length).toEqual(4)
+  })
+
+  it(`limits the attempts to the given methods`, () => {
+    expect(getPairingAttempts(`UE55RU7179`, [`token`])).toEqual([
+      { method: `token`, port: 8002 },
+      { method: `token`, port: 8001 },
+    ])
+    expect(getPairingAttempts(`UE55RU7179`, [`pin`, `legacy`])).toEqual([
+      { method: `pin` },
+      { method: `legacy`, port: 55000 },
+    ])
+  })
+})
+
+describe(`getConfigSnippet`, () => {
+  it(`creates the platform config`, () => {
+    expect(
+      JSON.parse(
+        getConfigSnippet({
+          usn: `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+          name: `[TV] Samsung 7 Series (55)`,
+          modelName: `UE55RU7179`,
+          mac: `21:2f:b7:1f:df:f0`,
+          token: `12345678`,
+          port: 8002,
+        }),
+      ),
+    ).toEqual({
+      platform: `SamsungTVControl`,
+      devices: [
+        {
+          usn: `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+          name: `[TV] Samsung 7 Series (55)`,
+          modelName: `UE55RU7179`,
+          mac: `21:2f:b7:1f:df:f0`,
+          token: `12345678`,
+        },
+      ],
+    })
+  })
+
+  it(`adds the port when it differs from the default one`, () => {
+    expect(
+      JSON.parse(
+        getConfigSnippet({ modelName: `UE55RU7179`, token: null, port: 8001 }),
+      ).devices,
+    ).toEqual([{ modelName: `UE55RU7179`, remoteControlPort: 8001 }])
+  })
+})
@@ -0,0 +1,43 @@
+import parseApp from '../parseApp'
+
+const installedApps = [{ appId: `3201907018807`, name: `Netflix 2`, type: 2 }]
+
+describe(`parseApp`, () => {
+  it(`parses app names`, () => {
+    expect(parseApp(`YouTube`)).toEqual({ appId: `111299001912` })
+    expect(parseApp(`app:netflix`)).toEqual({ appId: `11101200001` })
+    expect(parseApp(`app:NETFLIX 2`, installedApps)).toEqual({
+      appId: `3201907018807`,
+    })
+  })
+
+  it(`parses raw app ids`, () => {
+    expect(parseApp(`app:3201606009684`)).toEqual({ appId: `3201606009684` })
+    expect(parseApp(`APP: org.tizen.browser `)).toEqual({
+      appId: `org.tizen.browser`,
+    })
+  })
+
+  it(`parses deep links`, () => {
+    expect(parseApp(`app:Netflix?contentId=80057281`)).toEqual({
+      appId: `11101200001`,
+      metaTag: `contentId=80057281`,
+    })
+    expect(parseApp(`app:111299001912?v=dQw4w9WgXcQ&t=42`)).toEqual({
+      appId: `111299001912`,
+      metaTag: `v=dQw4w9WgXcQ&t=42`,
+    })
+  })
+
+  it(`ignores other inputs`, () => {
+    expect(parseApp(`hdmi1`)).toEqual(null)
+    expect(parseApp(`42`)).toEqual(null)
+    expect(parseApp(`app:`)).toEqual(null)
+  })
+
+  it(`ignores macros with more steps`, () => {
+    expect(parseApp(`app:Netflix, wait:3000, enter`)).toEqual(null)
+    expect(parseApp(`app:Netflix?contentId=80057281,enter`)).toEqual(null)
+    expect(parseApp(`app:YouTube\nwait:3000`)).toEqual(null)
+  })
+})
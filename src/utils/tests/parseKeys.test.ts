@@ -1,4 +1,4 @@
-import parseKeys from '../parseKeys'
+import parseKeys, { parseMacro, MacroSyntaxError } from '../parseKeys'
 import { Logger } from 'homebridge'
 import { DeviceConfig } from '../../types/deviceConfig'
 
@@ -123,3 +123,155 @@ describe(`parseKeys`, () => {
     expect(log.warn).toHaveBeenCalledTimes(3)
   })
 })
+
+describe(`parseMacro`, () => {
+  const key = (k: string, delay?: number) => ({ type: `key`, key: k, delay })
+
+  const syntaxError = (source: string) => {
+    try {
+      parseMacro(source)
+    } catch (err) {
+      expect(err).toBeInstanceOf(MacroSyntaxError)
+      return err as MacroSyntaxError
+    }
+    throw new Error(`Expected "${source}" to fail`)
+  }
+
+  it(`parses key sequences`, () => {
+    expect(parseMacro(`tools,down*3, ENTER ,KEY_UP`)).toEqual([
+      key(`KEY_TOOLS`),
+      key(`KEY_DOWN`),
+      key(`KEY_DOWN`),
+      key(`KEY_DOWN`),
+      key(`KEY_ENTER`),
+      key(`KEY_UP`),
+    ])
+  })
+
+  it(`parses channels`, () => {
+    expect(parseMacro(`042`)).toEqual([
+      { type: `key`, key: `KEY_0` },
+      { type: `key`, key: `KEY_4` },
+      { type: `key`, key: `KEY_2` },
+      { type: `key`, key: `KEY_ENTER` },
+    ])
+    // Numbers within macros don't add the ENTER
+    expect(parseMacro(`tv,12`)).toEqual([
+      key(`KEY_TV`),
+      key(`KEY_1`),
+      key(`KEY_2`),
+    ])
+    expect(parseMacro(`tv,12,enter`).slice(-1)).toEqual([key(`KEY_ENTER`)])
+  })
+
+  it(`parses waits`, () => {
+    expect(parseMacro(`menu,wait:2000,enter`)).toEqual([
+      key(`KEY_MENU`),
+      { type: `wait`, duration: 2000 },
+      key(`KEY_ENTER`),
+    ])
+  })
+
+  it(`parses delays for the following keys`, () => {
+    expect(parseMacro(`up,delay:200,down*2,delay:0,left`)).toEqual([
+      key(`KEY_UP`),
+      key(`KEY_DOWN`, 200),
+      key(`KEY_DOWN`, 200),
+      key(`KEY_LEFT`, 0),
+    ])
+  })
+
+  it(`parses held keys`, () => {
+    expect(parseMacro(`KEY_POWER:hold:3000`)).toEqual([
+      { type: `hold`, key: `KEY_POWER`, duration: 3000, delay: undefined },
+    ])
+    expect(parseMacro(`if:on:power:hold:3000`)).toEqual([
+      {
+        type: `if`,
+        active: true,
+        step: { type: `hold`, key: `KEY_POWER`, duration: 3000 },
+      },
+    ])
+    expect(parseMacro(`delay:100,return:HOLD:1500`)).toEqual([
+      { type: `hold`, key: `KEY_RETURN`, duration: 1500, delay: 100 },
+    ])
+  })
+
+  it(`parses app launches`, () => {
+    expect(
+      parseMacro(`app:YouTube,wait:5000,app:3201606009684?track=42`),
+    ).toEqual([
+      { type: `app`, appId: `111299001912` },
+      { type: `wait`, duration: 5000 },
+      { type: `app`, appId: `3201606009684`, metaTag: `track=42` },
+    ])
+    expect(
+      parseMacro(`app:My App`, [{ appId: `1234`, name: `My App`, type: 2 }]),
+    ).toEqual([{ type: `app`, appId: `1234` }])
+  })
+
+  it(`parses power actions and conditions`, () => {
+    expect(parseMacro(`if:off:power:on,wait:1000,power:OFF`)).toEqual([
+      { type: `if`, active: false, step: { type: `power`, active: true } },
+      { type: `wait`, duration: 1000 },
+      { type: `power`, active: false },
+    ])
+    expect(parseMacro(`if:on:down*2`)).toEqual([
+      { type: `if`, active: true, step: key(`KEY_DOWN`) },
+      { type: `if`, active: true, step: key(`KEY_DOWN`) },
+    ])
+  })
+
+  it(`allows new lines and trailing separators`, () => {
+    expect(parseMacro(`source\n  wait:500,\nhdmi2,\n`)).toEqual([
+      key(`KEY_SOURCE`),
+      { type: `wait`, duration: 500 },
+      key(`KEY_HDMI2`),
+    ])
+    expect(parseMacro(``)).toEqual([])
+  })
+
+  it(`reports unknown keys with their position`, () => {
+    const err = syntaxError(`up,down\n  something,enter`)
+    expect(err.message).toMatch(/Unknown key "something"/)
+    expect(err.line).toEqual(2)
+    expect(err.column).toEqual(3)
+  })
+
+  it(`reports invalid durations with their position`, () => {
+    let err = syntaxError(`up,wait:soon`)
+    expect(err.message).toMatch(/Expected a duration/)
+    expect([err.line, err.column]).toEqual([1, 9])
+
+    err = syntaxError(`power:hold:`)
+    expect([err.line, err.column]).toEqual([1, 12])
+
+    err = syntaxError(`menu\ndelay:-1`)
+    expect([err.line, err.column]).toEqual([2, 7])
+  })
+
+  it(`reports invalid repetitions`, () => {
+    const err = syntaxError(`down*0`)
+    expect(err.message).toMatch(/repetitions/)
+    expect([err.line, err.column]).toEqual([1, 6])
+  })
+
+  it(`reports unknown commands and empty steps`, () => {
+    let err = syntaxError(`up,jump:3`)
+    expect(err.message).toMatch(/Unknown command "jump"/)
+    expect([err.line, err.column]).toEqual([1, 4])
+
+    err = syntaxError(`up,,down`)
+    expect(err.message).toMatch(/Expected a step/)
+    expect([err.line, err.column]).toEqual([1, 4])
+
+    err = syntaxError(`power:maybe`)
+    expect([err.line, err.column]).toEqual([1, 7])
+
+    err = syntaxError(`if:sometimes:up`)
+    expect(err.message).toMatch(/if:on/)
+
+    err = syntaxError(`if:on:wait:x`)
+    expect([err.line, err.column]).toEqual([1, 12])
+  })
+})
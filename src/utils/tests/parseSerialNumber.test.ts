@@ -1,3 +1,5 @@
+import fs from 'fs'
+import path from 'path'
 import parseSerialNumber from '../parseSerialNumber'
 
 test(`parseSerialNumber`, () => {
@@ -30,3 +32,59 @@ test(`parseSerialNumber`, () => {
   const model5 = parseSerialNumber(`laskdnalskndla`)
   expect(model5).toBeFalsy()
 })
+
+interface ModelFixture {
+  model: string
+  category: string
+  year: number | Array<number>
+  line?: string
+  size?: number
+  market?: string
+  minConfidence: number
+}
+
+const fixtures: { models: Array<ModelFixture>; invalid: Array<string> } =
+  JSON.parse(
+    fs.readFileSync(
+      path.join(__dirname, `fixtures`, `modelCodes.json`),
+      `utf8`,
+    ),
+  )
+
+describe(`model codes`, () => {
+  test.each(fixtures.models.map((f) => [f.model, f] as const))(
+    `parses %s`,
+    (model, { category, year, line, size, market, minConfidence }) => {
+      const parsed = parseSerialNumber(model)
+      expect(parsed).not.toBeFalsy()
+      expect(parsed!.category).toEqual(category)
+      expect(parsed!.year).toEqual(year)
+      expect(parsed!.line).toEqual(line)
+      if (size) {
+        expect(parsed!.size).toEqual(size)
+      }
+      if (market) {
+        expect(parsed!.market).toEqual(market)
+      }
+      expect(parsed!.confidence).toBeGreaterThanOrEqual(minConfidence)
+      expect(parsed!.confidence).toBeLessThanOrEqual(1)
+    },
+  )
+
+  test.each(fixtures.invalid)(`rejects "%s"`, (model) => {
+    expect(parseSerialNumber(model)).toBeNull()
+  })
+
+  it(`is case insensitive`, () => {
+    expect(parseSerialNumber(`qe55qn90a`)).toEqual(
+      parseSerialNumber(`QE55QN90A`),
+    )
+  })
+
+  it(`has a low confidence for unknown series`, () => {
+    const model = parseSerialNumber(`QE55QX1`)
+    expect(model).not.toBeFalsy()
+    expect(model!.year).toEqual([2017, 2018, 2019, 2020])
+    expect(model!.confidence).toBeLessThan(0.5)
+  })
+})
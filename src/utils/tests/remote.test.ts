@@ -0,0 +1,92 @@
+import { runMacro, setActive, waitForActive } from '../remote'
+import { getConnection } from '../connection'
+import { getPowerState } from '../restApi'
+import wakeOnLan from '../wakeOnLan'
+import wait from '../wait'
+import { DeviceConfig } from '../../types/deviceConfig'
+
+jest.mock(`../connection`)
+jest.mock(`../restApi`)
+jest.mock(`../wakeOnLan`)
+jest.mock(`../wait`)
+
+const mockedGetConnection = getConnection as jest.Mock
+const mockedGetPowerState = getPowerState as jest.Mock
+const mockedWakeOnLan = wakeOnLan as jest.Mock
+const mockedWait = wait as jest.Mock
+
+const config = {
+  name: `TV`,
+  modelName: `UE55MU6179`,
+  mac: `21:2F:B7:1F:DF:F0`,
+  lastKnownIp: `192.168.1.2`,
+  usn: `uuid:device`,
+  powerOnTimeout: 20000,
+} as DeviceConfig
+
+describe(`waitForActive`, () => {
+  let now = 0
+
+  beforeEach(() => {
+    now = 0
+    jest.spyOn(Date, `now`).mockImplementation(() => now)
+    mockedWait.mockImplementation(async (ms: number) => {
+      now += ms
+    })
+    mockedWakeOnLan.mockReset().mockResolvedValue(undefined)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it(`resolves once the TV turned on`, async () => {
+    mockedGetPowerState
+      .mockReset()
+      .mockResolvedValueOnce(`standby`)
+      .mockResolvedValue(`on`)
+    expect(await waitForActive(config)).toEqual(true)
+    expect(mockedWakeOnLan).not.toHaveBeenCalled()
+  })
+
+  it(`keeps waking the TV until the timeout`, async () => {
+    mockedGetPowerState.mockReset().mockResolvedValue(`standby`)
+    expect(await waitForActive(config)).toEqual(false)
+    expect(now).toEqual(20000)
+    expect(mockedWakeOnLan).toHaveBeenCalledTimes(4)
+  })
+
+  it(`rejects when the TV can't be woken`, async () => {
+    mockedGetPowerState.mockReset().mockResolvedValue(`standby`)
+    mockedWakeOnLan.mockRejectedValue(new Error(`Invalid mac`))
+    await expect(waitForActive(config)).rejects.toThrow(`Invalid mac`)
+  })
+})
+
+describe(`turning the TV off`, () => {
+  const sendKeys = jest.fn()
+
+  beforeEach(() => {
+    sendKeys.mockReset()
+    mockedGetConnection.mockReturnValue({ sendKeys })
+    mockedGetPowerState.mockReset().mockResolvedValue(`on`)
+  })
+
+  it(`waits for the power key`, async () => {
+    let sent = false
+    sendKeys.mockImplementation(async () => {
+      await Promise.resolve()
+      sent = true
+    })
+    await setActive(config, false)
+    expect(sent).toEqual(true)
+    expect(sendKeys).toHaveBeenCalledWith([`KEY_POWEROFF`])
+  })
+
+  it(`fails power steps when the key can't be sent`, async () => {
+    sendKeys.mockRejectedValue(new Error(`Not connected`))
+    await expect(
+      runMacro(config, [{ type: `power`, active: false }]),
+    ).rejects.toThrow(`Not connected`)
+  })
+})
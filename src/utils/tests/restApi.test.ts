@@ -0,0 +1,110 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  getApplication,
+  getDeviceInfo,
+  getPowerState,
+  launchApplication,
+} from '../restApi'
+
+const deviceInfo = (powerState?: string) => ({
+  id: `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+  name: `[TV] Samsung 7 Series (55)`,
+  type: `Samsung SmartTV`,
+  uri: `http://127.0.0.1:8001/api/v2/`,
+  version: `2.0.25`,
+  device: {
+    PowerState: powerState,
+    OS: `Tizen`,
+    duid: `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+    firmwareVersion: `Unknown`,
+    id: `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+    ip: `127.0.0.1`,
+    model: `19_MUSEL_UHD`,
+    modelName: `UN55RU7100`,
+    name: `[TV] Samsung 7 Series (55)`,
+    networkType: `wireless`,
+    resolution: `3840x2160`,
+    type: `Samsung SmartTV`,
+    wifiMac: `21:2F:B7:1F:DF:F0`,
+  },
+})
+
+describe(`restApi`, () => {
+  let server: http.Server
+  let port: number
+  let powerState: string | undefined
+  let requests: Array<string>
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`)
+      if (req.url === `/api/v2/`) {
+        res.end(JSON.stringify(deviceInfo(powerState)))
+        return
+      }
+      if (req.url === `/api/v2/applications/111299001912`) {
+        if (req.method === `GET`) {
+          res.end(
+            JSON.stringify({
+              id: `111299001912`,
+              name: `YouTube`,
+              running: true,
+              visible: true,
+              version: `2.1.498`,
+            }),
+          )
+          return
+        }
+        res.end(`true`)
+        return
+      }
+      res.statusCode = 404
+      res.end(`{}`)
+    })
+    await new Promise<void>((resolve) => server.listen(0, `127.0.0.1`, resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  beforeEach(() => {
+    powerState = `on`
+    requests = []
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it(`gets the device info`, async () => {
+    const info = await getDeviceInfo(`127.0.0.1`, port)
+    expect(info.device.modelName).toEqual(`UN55RU7100`)
+    expect(info.device.wifiMac).toEqual(`21:2F:B7:1F:DF:F0`)
+  })
+
+  it(`gets the power state`, async () => {
+    expect(await getPowerState(`127.0.0.1`, port)).toEqual(`on`)
+    powerState = `standby`
+    expect(await getPowerState(`127.0.0.1`, port)).toEqual(`standby`)
+    powerState = undefined
+    expect(await getPowerState(`127.0.0.1`, port)).toEqual(null)
+  })
+
+  it(`rejects when the TV is not reachable`, async () => {
+    await expect(getPowerState(`127.0.0.1`, 1)).rejects.toBeTruthy()
+  })
+
+  it(`gets the state of an app`, async () => {
+    const app = await getApplication(`127.0.0.1`, `111299001912`, port)
+    expect(app.name).toEqual(`YouTube`)
+    expect(app.visible).toEqual(true)
+  })
+
+  it(`rejects unknown apps`, async () => {
+    await expect(getApplication(`127.0.0.1`, `42`, port)).rejects.toThrow(/404/)
+  })
+
+  it(`launches apps`, async () => {
+    await launchApplication(`127.0.0.1`, `111299001912`, port)
+    expect(requests).toEqual([`POST /api/v2/applications/111299001912`])
+  })
+})
@@ -0,0 +1,123 @@
+import dgram from 'dgram'
+import { AddressInfo } from 'net'
+import {
+  parseNotify,
+  SsdpNotification,
+  SsdpNotifyListener,
+} from '../ssdpNotify'
+
+const notify = (nts: string, nt: string, location?: string) =>
+  [
+    `NOTIFY * HTTP/1.1`,
+    `HOST: 239.255.255.250:1900`,
+    `CACHE-CONTROL: max-age=1800`,
+    ...(location ? [`LOCATION: ${location}`] : []),
+    `NT: ${nt}`,
+    `NTS: ${nts}`,
+    `SERVER: SHP, UPnP/1.0, Samsung UPnP SDK/1.0`,
+    `USN: uuid:0ee6b280-00fa-1000-adb6-b8bc68adbbb8::${nt}`,
+    ``,
+    ``,
+  ].join(`\r\n`)
+
+const MEDIA_RENDERER = `urn:schemas-upnp-org:device:MediaRenderer:1`
+const RENDERING_CONTROL = `urn:schemas-upnp-org:service:RenderingControl:1`
+
+describe(`parseNotify`, () => {
+  it(`parses alive and byebye notifications`, () => {
+    expect(
+      parseNotify(
+        notify(`ssdp:alive`, MEDIA_RENDERER, `http://10.0.0.5:9197/dmr`),
+        `10.0.0.5`,
+      ),
+    ).toEqual({
+      type: `alive`,
+      usn: `uuid:0ee6b280-00fa-1000-adb6-b8bc68adbbb8`,
+      nts: [MEDIA_RENDERER],
+      location: `http://10.0.0.5:9197/dmr`,
+      address: `10.0.0.5`,
+    })
+    expect(
+      parseNotify(notify(`ssdp:byebye`, MEDIA_RENDERER), `10.0.0.5`),
+    ).toEqual({
+      type: `byebye`,
+      usn: `uuid:0ee6b280-00fa-1000-adb6-b8bc68adbbb8`,
+      nts: [MEDIA_RENDERER],
+      address: `10.0.0.5`,
+    })
+  })
+
+  it(`ignores other messages`, () => {
+    expect(
+      parseNotify(
+        notify(`ssdp:update`, MEDIA_RENDERER).replace(/USN: .*\r\n/, ``),
+        `10.0.0.5`,
+      ),
+    ).toEqual(null)
+    expect(
+      parseNotify(
+        `M-SEARCH * HTTP/1.1\r\nMAN: "ssdp:discover"\r\nST: ssdp:all\r\n\r\n`,
+        `10.0.0.5`,
+      ),
+    ).toEqual(null)
+    expect(
+      parseNotify(
+        `HTTP/1.1 200 OK\r\nNTS: ssdp:alive\r\nUSN: uuid:a\r\n\r\n`,
+        `10.0.0.5`,
+      ),
+    ).toEqual(null)
+  })
+})
+
+describe(`SsdpNotifyListener`, () => {
+  it(`combines the notifications of a device`, async () => {
+    const probe = dgram.createSocket(`udp4`)
+    await new Promise<void>((resolve) => probe.bind(0, `127.0.0.1`, resolve))
+    const { port } = probe.address() as AddressInfo
+    probe.close()
+
+    const listener = new SsdpNotifyListener(undefined, {
+      address: `239.255.255.250`,
+      port,
+      debounce: 50,
+    })
+    const notifications: Array<SsdpNotification> = []
+    await listener.start((notification) => notifications.push(notification))
+
+    const sender = dgram.createSocket(`udp4`)
+    const send = (message: string) =>
+      new Promise<void>((resolve, reject) =>
+        sender.send(message, port, `127.0.0.1`, (err) =>
+          err ? reject(err) : resolve(),
+        ),
+      )
+    await send(notify(`ssdp:alive`, MEDIA_RENDERER, `http://127.0.0.1/dmr`))
+    await send(notify(`ssdp:alive`, RENDERING_CONTROL))
+    await send(notify(`ssdp:alive`, MEDIA_RENDERER, `http://127.0.0.1/dmr`))
+    for (let i = 0; i < 50 && !notifications.length; ++i) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+    await send(notify(`ssdp:byebye`, MEDIA_RENDERER))
+    for (let i = 0; i < 50 && notifications.length < 2; ++i) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+    sender.close()
+    listener.close()
+
+    expect(notifications).toEqual([
+      {
+        type: `alive`,
+        usn: `uuid:0ee6b280-00fa-1000-adb6-b8bc68adbbb8`,
+        nts: [MEDIA_RENDERER, RENDERING_CONTROL],
+        location: `http://127.0.0.1/dmr`,
+        address: `127.0.0.1`,
+      },
+      {
+        type: `byebye`,
+        usn: `uuid:0ee6b280-00fa-1000-adb6-b8bc68adbbb8`,
+        nts: [MEDIA_RENDERER],
+        address: `127.0.0.1`,
+      },
+    ])
+  })
+})
@@ -0,0 +1,223 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  parseLastChange,
+  RenderingControlEvents,
+  RenderingState,
+} from '../subscriptions'
+
+const lastChange = (event: string) =>
+  `<?xml version="1.0"?>` +
+  `<e:propertyset xmlns:e="urn:schemas-upnp-org:event-1-0"><e:property>` +
+  `<LastChange>${event
+    .replace(/&/g, `&amp;`)
+    .replace(/</g, `&lt;`)
+    .replace(/>/g, `&gt;`)
+    .replace(/"/g, `&quot;`)}</LastChange>` +
+  `</e:property></e:propertyset>`
+
+const deviceDescription = `<?xml version="1.0"?>
+<root xmlns="urn:schemas-upnp-org:device-1-0">
+  <device>
+    <deviceType>urn:schemas-upnp-org:device:MediaRenderer:1</deviceType>
+    <friendlyName>[TV] Samsung</friendlyName>
+    <modelName>UE40D6100</modelName>
+    <serviceList>
+      <service>
+        <serviceType>urn:schemas-upnp-org:service:RenderingControl:1</serviceType>
+        <serviceId>urn:upnp-org:serviceId:RenderingControl</serviceId>
+        <SCPDURL>/rcr/RenderingControl.xml</SCPDURL>
+        <controlURL>/upnp/control/RenderingControl1</controlURL>
+        <eventSubURL>/upnp/event/RenderingControl1</eventSubURL>
+      </service>
+      <service>
+        <serviceType>urn:schemas-upnp-org:service:ConnectionManager:1</serviceType>
+        <serviceId>urn:upnp-org:serviceId:ConnectionManager</serviceId>
+        <SCPDURL>/rcr/ConnectionManager.xml</SCPDURL>
+        <controlURL>/upnp/control/ConnectionManager1</controlURL>
+        <eventSubURL>/upnp/event/ConnectionManager1</eventSubURL>
+      </service>
+    </serviceList>
+  </device>
+</root>`
+
+describe(`parseLastChange`, () => {
+  it(`parses volume, mute and brightness`, () => {
+    expect(
+      parseLastChange(
+        lastChange(
+          `<Event xmlns="urn:schemas-upnp-org:metadata-1-0/RCS/"><InstanceID val="0">` +
+            `<Volume channel="Master" val="12"/><Mute channel="Master" val="1"/>` +
+            `<Brightness val="42"/></InstanceID></Event>`,
+        ),
+      ),
+    ).toEqual({ volume: 12, mute: true, brightness: 42 })
+  })
+
+  it(`only uses the master channel`, () => {
+    expect(
+      parseLastChange(
+        lastChange(
+          `<Event><InstanceID val="0"><Volume channel="LF" val="3"/>` +
+            `<Volume channel="Master" val="7"/><Mute channel="Master" val="0"/></InstanceID></Event>`,
+        ),
+      ),
+    ).toEqual({ volume: 7, mute: false })
+  })
+
+  it(`ignores events without LastChange`, () => {
+    expect(parseLastChange(`<e:propertyset></e:propertyset>`)).toEqual({})
+    expect(
+      parseLastChange(lastChange(`<Event><InstanceID val="0"/></Event>`)),
+    ).toEqual({})
+  })
+})
+
+describe(`RenderingControlEvents`, () => {
+  let tv: http.Server
+  let location: string
+  let requests: Array<http.IncomingMessage>
+  let callback: string
+  let sidCounter: number
+  let initialEvent: string | null
+
+  const notify = (sid: string, body: string) =>
+    new Promise<number | undefined>((resolve, reject) => {
+      const req = http.request(
+        callback,
+        { method: `NOTIFY`, headers: { SID: sid, NT: `upnp:event` } },
+        (res) => {
+          res.resume()
+          resolve(res.statusCode)
+        },
+      )
+      req.on(`error`, reject)
+      req.end(body)
+    })
+
+  const waitFor = async (fn: () => boolean) => {
+    for (let i = 0; i < 100 && !fn(); ++i) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+  }
+
+  beforeEach(async () => {
+    requests = []
+    sidCounter = 0
+    initialEvent = null
+    tv = http.createServer(async (req, res) => {
+      requests.push(req)
+      if (req.method === `GET` && req.url!.startsWith(`/dmr`)) {
+        res.setHeader(`Content-Type`, `text/xml`)
+        res.end(deviceDescription)
+        return
+      }
+      if (req.method === `SUBSCRIBE`) {
+        const sid = (req.headers.sid as string) || `uuid:sid-${++sidCounter}`
+        if (req.headers.callback) {
+          callback = (req.headers.callback as string).replace(/[<>]/g, ``)
+          // Some TV's send the state before answering the SUBSCRIBE
+          if (initialEvent) {
+            await notify(sid, initialEvent)
+          }
+        }
+        res.setHeader(`SID`, sid)
+        res.setHeader(`TIMEOUT`, `Second-1`)
+        res.end()
+        return
+      }
+      res.end()
+    })
+    await new Promise<void>((resolve) => tv.listen(0, `127.0.0.1`, resolve))
+    const { port } = tv.address() as AddressInfo
+    location = `http://127.0.0.1:${port}/dmr`
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => tv.close(resolve))
+  })
+
+  it(`subscribes and pushes state changes`, async () => {
+    const events = new RenderingControlEvents()
+    const states: Array<RenderingState> = []
+    await events.subscribe(`uuid:tv`, location, (state) => states.push(state))
+
+    const subscribe = requests.find((r) => r.method === `SUBSCRIBE`)
+    expect(subscribe).toBeTruthy()
+    expect(subscribe!.url).toEqual(`/upnp/event/RenderingControl1`)
+    expect(subscribe!.headers.nt).toEqual(`upnp:event`)
+    expect(callback).toMatch(/^http:\/\/127\.0\.0\.1:[0-9]+\/$/)
+
+    const status = await notify(
+      `uuid:sid-1`,
+      lastChange(
+        `<Event><InstanceID val="0"><Volume channel="Master" val="20"/></InstanceID></Event>`,
+      ),
+    )
+    expect(status).toEqual(200)
+    await notify(
+      `uuid:unknown`,
+      lastChange(
+        `<Event><InstanceID val="0"><Volume channel="Master" val="30"/></InstanceID></Event>`,
+      ),
+    )
+    await waitFor(() => states.length > 0)
+    expect(states).toEqual([{ volume: 20 }])
+
+    await events.close()
+    expect(requests.some((r) => r.method === `UNSUBSCRIBE`)).toEqual(true)
+  })
+
+  it(`keeps the state sent before the subscription was confirmed`, async () => {
+    initialEvent = lastChange(
+      `<Event><InstanceID val="0"><Volume channel="Master" val="15"/>` +
+        `<Mute channel="Master" val="0"/></InstanceID></Event>`,
+    )
+    const events = new RenderingControlEvents()
+    const states: Array<RenderingState> = []
+    await events.subscribe(`uuid:tv`, location, (state) => states.push(state))
+    expect(states).toEqual([{ volume: 15, mute: false }])
+    expect(events[`pendingNotifies`]).toEqual({})
+    await events.close()
+  })
+
+  it(`waits for the callback server to listen`, async () => {
+    const events = new RenderingControlEvents()
+    // Check the address as soon as each call resolves
+    const addresses = await Promise.all([
+      events[`getServer`]().then((server) => server.address()),
+      events[`getServer`]().then((server) => server.address()),
+    ])
+    expect(addresses[0]).toBeTruthy()
+    expect(addresses[1]).toEqual(addresses[0])
+    await events.close()
+  })
+
+  it(`renews subscriptions before they expire`, async () => {
+    const events = new RenderingControlEvents(undefined, {
+      timeout: 1,
+      renewMargin: 0,
+      retryInterval: 1,
+    })
+    await events.subscribe(`uuid:tv`, location, () => undefined)
+    await waitFor(() => requests.some((r) => !!r.headers.sid))
+    const renewal = requests.find(
+      (r) => r.method === `SUBSCRIBE` && !!r.headers.sid,
+    )
+    expect(renewal).toBeTruthy()
+    expect(renewal!.headers.sid).toEqual(`uuid:sid-1`)
+    expect(renewal!.headers.callback).toBeUndefined()
+    await events.close()
+  })
+
+  it(`resubscribes when the location changes`, async () => {
+    const events = new RenderingControlEvents()
+    await events.subscribe(`uuid:tv`, location, () => undefined)
+    await events.update(`uuid:tv`, `${location}?moved`)
+    expect(requests.filter((r) => r.method === `UNSUBSCRIBE`).length).toEqual(1)
+    expect(
+      requests.filter((r) => r.method === `SUBSCRIBE` && !r.headers.sid).length,
+    ).toEqual(2)
+    await events.close()
+  })
+})
@@ -0,0 +1,105 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import unicastDiscovery, {
+  expandHost,
+  expandHosts,
+  checkLocation,
+} from '../unicastDiscovery'
+
+const deviceDescription = `<?xml version="1.0"?>
+<root xmlns="urn:schemas-upnp-org:device-1-0">
+  <device>
+    <deviceType>urn:schemas-upnp-org:device:MediaRenderer:1</deviceType>
+    <friendlyName>[TV] Samsung</friendlyName>
+    <modelName>UE40D6100</modelName>
+    <UDN>uuid:a7001fbe-c776-11ea-87d0-0242ac130003</UDN>
+  </device>
+</root>`
+
+describe(`expandHosts`, () => {
+  it(`keeps single addresses`, () => {
+    expect(expandHosts([`10.0.20.5`, ` 10.0.20.6 `, `10.0.20.5`])).toEqual([
+      `10.0.20.5`,
+      `10.0.20.6`,
+    ])
+  })
+
+  it(`expands CIDR ranges`, () => {
+    const hosts = expandHosts([`10.0.20.77/24`])
+    expect(hosts.length).toEqual(254)
+    expect(hosts[0]).toEqual(`10.0.20.1`)
+    expect(hosts[253]).toEqual(`10.0.20.254`)
+    expect(expandHosts([`192.168.1.9/30`])).toEqual([
+      `192.168.1.9`,
+      `192.168.1.10`,
+    ])
+    expect(expandHosts([`192.168.1.9/31`])).toEqual([
+      `192.168.1.8`,
+      `192.168.1.9`,
+    ])
+    expect(expandHosts([`172.16.3.255/24`]).slice(-1)).toEqual([`172.16.3.254`])
+  })
+
+  it(`rejects invalid entries`, () => {
+    expect(() => expandHost(`10.0.20`)).toThrow(/Invalid ip/)
+    expect(() => expandHost(`10.0.300.1`)).toThrow(/Invalid ip/)
+    expect(() => expandHost(`10.0.20.0/33`)).toThrow(/Invalid CIDR/)
+    expect(() => expandHost(`10.0.0.0/23`)).toThrow(/too large/)
+  })
+
+  it(`skips invalid entries`, () => {
+    const log = jest.spyOn(console, `log`).mockImplementation(() => undefined)
+    expect(expandHosts([`10.0.20`, `10.0.20.5`, `10.0.0.0/16`])).toEqual([
+      `10.0.20.5`,
+    ])
+    expect(log).toHaveBeenCalledTimes(2)
+    log.mockRestore()
+  })
+})
+
+describe(`unicastDiscovery`, () => {
+  let server: http.Server
+  let port: number
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === `/dmr`) {
+        res.setHeader(`Content-Type`, `text/xml`)
+        res.end(deviceDescription)
+        return
+      }
+      res.statusCode = 404
+      res.end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, `127.0.0.1`, resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it(`reads the usn from device descriptions`, async () => {
+    expect(await checkLocation(`http://127.0.0.1:${port}/dmr`)).toEqual({
+      usn: `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+      location: `http://127.0.0.1:${port}/dmr`,
+      address: `127.0.0.1`,
+    })
+    await expect(
+      checkLocation(`http://127.0.0.1:${port}/unknown`),
+    ).rejects.toThrow(/404/)
+  })
+
+  it(`checks configured locations`, async () => {
+    const log = jest.spyOn(console, `log`).mockImplementation(() => undefined)
+    const devices = await unicastDiscovery(
+      [],
+      [`http://127.0.0.1:${port}/dmr`, `http://127.0.0.1:${port}/unknown`],
+    )
+    expect(devices.map(({ usn }) => usn)).toEqual([
+      `uuid:a7001fbe-c776-11ea-87d0-0242ac130003`,
+    ])
+    expect(log).toHaveBeenCalledTimes(1)
+    log.mockRestore()
+  })
+})
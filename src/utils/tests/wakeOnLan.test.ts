@@ -0,0 +1,44 @@
+import dgram from 'dgram'
+import { AddressInfo } from 'net'
+import wakeOnLan, { createMagicPacket } from '../wakeOnLan'
+
+describe(`wakeOnLan`, () => {
+  it(`creates magic packets`, () => {
+    const packet = createMagicPacket(`21:2F:B7:1F:DF:F0`)
+    expect(packet.length).toEqual(102)
+    expect(packet.slice(0, 6).toString(`hex`)).toEqual(`ffffffffffff`)
+    for (let i = 0; i < 16; ++i) {
+      expect(packet.slice(6 + i * 6, 12 + i * 6).toString(`hex`)).toEqual(
+        `212fb71fdff0`,
+      )
+    }
+    expect(createMagicPacket(`21-2f-b7-1f-df-f0`)).toEqual(packet)
+  })
+
+  it(`rejects invalid mac addresses`, () => {
+    expect(() => createMagicPacket(`21:2F:B7`)).toThrow()
+    expect(() => createMagicPacket(`00:00:00:00:00:00`)).toThrow()
+  })
+
+  it(`sends repeated magic packets`, async () => {
+    const listener = dgram.createSocket(`udp4`)
+    const received: Array<Buffer> = []
+    listener.on(`message`, (msg) => received.push(msg))
+    await new Promise<void>((resolve) => listener.bind(0, `127.0.0.1`, resolve))
+    const { port } = listener.address() as AddressInfo
+
+    await wakeOnLan(`21:2F:B7:1F:DF:F0`, {
+      address: `127.0.0.1`,
+      port,
+      packets: 3,
+      interval: 10,
+    })
+    for (let i = 0; i < 50 && received.length < 3; ++i) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    listener.close()
+
+    expect(received.length).toEqual(3)
+    expect(received[0]).toEqual(createMagicPacket(`21:2F:B7:1F:DF:F0`))
+  })
+})
@@ -0,0 +1,166 @@
+import http from 'http'
+import { URL } from 'url'
+import chalk from 'chalk'
+import { getTag } from './xml'
+
+/**
+ * Locations of the MediaRenderer description that are probed for each host
+ */
+const DESCRIPTION_URLS = [`http://{ip}:9197/dmr`, `http://{ip}/dmr`]
+
+/**
+ * Ranges with more hosts are rejected to not flood the network
+ * and to keep each discovery run short
+ */
+const MAX_HOSTS = 256
+const PROBE_CONCURRENCY = 64
+
+export interface UnicastDevice {
+  usn: string
+  location: string
+  address: string
+}
+
+const ipToNumber = (ip: string) =>
+  ip.split(`.`).reduce((n, part) => n * 256 + parseInt(part, 10), 0)
+
+const numberToIp = (n: number) =>
+  [24, 16, 8, 0].map((shift) => Math.floor(n / 2 ** shift) % 256).join(`.`)
+
+const isIp = (ip: string) =>
+  /^[0-9]{1,3}(\.[0-9]{1,3}){3}$/.test(ip) &&
+  ip.split(`.`).every((part) => parseInt(part, 10) <= 255)
+
+/**
+ * Expands an ip address or CIDR range (e.g. `10.0.20.0/24`)
+ * into the addresses of all hosts
+ */
+export const expandHost = (entry: string) => {
+  const [ip, prefixStr] = entry.trim().split(`/`)
+  if (!isIp(ip)) {
+    throw new Error(`Invalid ip address "${entry}"`)
+  }
+  if (prefixStr === undefined) {
+    return [ip]
+  }
+  const prefix = parseInt(prefixStr, 10)
+  if (!/^[0-9]+$/.test(prefixStr) || prefix > 32) {
+    throw new Error(`Invalid CIDR range "${entry}"`)
+  }
+  const size = 2 ** (32 - prefix)
+  if (size > MAX_HOSTS) {
+    throw new Error(
+      `The range "${entry}" is too large, use at least a /${
+        32 - Math.log2(MAX_HOSTS)
+      }`,
+    )
+  }
+  const network = ipToNumber(ip) - (ipToNumber(ip) % size)
+  // Skip the network and broadcast address of regular subnets
+  const [first, last] = size > 2 ? [1, size - 2] : [0, size - 1]
+  const hosts: Array<string> = []
+  for (let i = first; i <= last; ++i) {
+    hosts.push(numberToIp(network + i))
+  }
+  return hosts
+}
+
+/**
+ * Expands a list of ip addresses and CIDR ranges into the addresses
+ * of all hosts. Invalid entries are skipped with a warning.
+ */
+export const expandHosts = (entries: Array<string>) => {
+  const hosts: Array<string> = []
+  for (const entry of entries) {
+    try {
+      hosts.push(...expandHost(entry))
+    } catch (err) {
+      console.log(
+        chalk`{yellow Skipping unicast host "${entry}".}`,
+        err.message,
+      )
+    }
+  }
+  return hosts.filter((host, i) => hosts.indexOf(host) === i)
+}
+
+const fetchText = (url: string, timeout: number) =>
+  new Promise<string>((resolve, reject) => {
+    const req = http.get(url, { timeout }, (res) => {
+      const chunks: Array<Buffer> = []
+      res.on(`data`, (chunk) => chunks.push(chunk))
+      res.on(`end`, () => {
+        if (res.statusCode !== 200) {
+          reject(new Error(`GET ${url} failed with ${res.statusCode}`))
+          return
+        }
+        resolve(Buffer.concat(chunks).toString())
+      })
+    })
+    req.on(`timeout`, () => req.destroy(new Error(`GET ${url} timed out`)))
+    req.on(`error`, reject)
+  })
+
+/**
+ * Fetches a device description and returns the device's usn (UDN)
+ */
+export const checkLocation = async (
+  location: string,
+  timeout = 2000,
+): Promise<UnicastDevice | null> => {
+  const description = await fetchText(location, timeout)
+  const udn = getTag(description, `UDN`)
+  if (!udn) {
+    return null
+  }
+  return { usn: udn, location, address: new URL(location).hostname }
+}
+
+/**
+ * Looks for a MediaRenderer description at the usual locations.
+ * They are checked at once so hosts without a TV only take one timeout.
+ */
+export const probeHost = async (ip: string, timeout = 2000) => {
+  const devices = await Promise.all(
+    DESCRIPTION_URLS.map((url) =>
+      checkLocation(url.replace(`{ip}`, ip), timeout).catch(() => null),
+    ),
+  )
+  return devices.find((device) => !!device) || null
+}
+
+/**
+ * Probes all hosts and locations without relying on multicast,
+ * e.g. for TV's in another VLAN
+ */
+export default async (
+  hosts: Array<string>,
+  locations: Array<string>,
+  timeout = 2000,
+) => {
+  const devices: Array<UnicastDevice> = []
+  const checks: Array<() => Promise<UnicastDevice | null>> = [
+    ...expandHosts(hosts).map((ip) => () => probeHost(ip, timeout)),
+    ...locations.map(
+      (location) => () =>
+        checkLocation(location, timeout).catch((err) => {
+          console.log(
+            chalk`{red Could not fetch the device description at "{yellow ${location}}".}`,
+            err.message,
+          )
+          return null
+        }),
+    ),
+  ]
+  for (let i = 0; i < checks.length; i += PROBE_CONCURRENCY) {
+    const results = await Promise.all(
+      checks.slice(i, i + PROBE_CONCURRENCY).map((check) => check()),
+    )
+    for (const device of results) {
+      if (device) {
+        devices.push(device)
+      }
+    }
+  }
+  return devices
+}
@@ -0,0 +1,69 @@
+import dgram from 'dgram'
+import wait from './wait'
+
+export interface WakeOnLanOptions {
+  /**
+   * Broadcast address to send the magic packets to
+   */
+  address?: string
+  port?: number
+  /**
+   * Number of packets to send and delay in ms between them
+   */
+  packets?: number
+  interval?: number
+}
+
+/**
+ * Creates a magic packet which consists of 6 times 0xff
+ * followed by 16 repetitions of the mac address
+ */
+export const createMagicPacket = (mac: string) => {
+  const hex = mac.replace(/[^0-9a-f]/gi, ``)
+  if (hex.length !== 12 || /^0+$/.test(hex)) {
+    throw new Error(`Invalid mac address "${mac}"`)
+  }
+  const macBuffer = Buffer.from(hex, `hex`)
+  const packet = Buffer.alloc(6 + 16 * 6, 0xff)
+  for (let i = 0; i < 16; ++i) {
+    macBuffer.copy(packet, 6 + i * 6)
+  }
+  return packet
+}
+
+/**
+ * Sends magic packets to wake up a device
+ */
+export default async (
+  mac: string,
+  {
+    address = `255.255.255.255`,
+    port = 9,
+    packets = 3,
+    interval = 100,
+  }: WakeOnLanOptions = {},
+) => {
+  const packet = createMagicPacket(mac)
+  const socket = dgram.createSocket(`udp4`)
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once(`error`, reject)
+      socket.bind(() => {
+        socket.setBroadcast(true)
+        resolve()
+      })
+    })
+    for (let i = 0; i < packets; ++i) {
+      await new Promise<void>((resolve, reject) => {
+        socket.send(packet, port, address, (err) =>
+          err ? reject(err) : resolve(),
+        )
+      })
+      if (i < packets - 1) {
+        await wait(interval)
+      }
+    }
+  } finally {
+    socket.close()
+  }
+}
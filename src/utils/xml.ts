@@ -0,0 +1,26 @@
+/**
+ * UPnP nests xml documents (e.g. LastChange or channels) as escaped strings
+ */
+export const decodeEntities = (str: string) =>
+  str
+    .replace(/&lt;/g, `<`)
+    .replace(/&gt;/g, `>`)
+    .replace(/&quot;/g, `"`)
+    .replace(/&apos;/g, `'`)
+    .replace(/&amp;/g, `&`)
+
+export const encodeEntities = (str: string) =>
+  str
+    .replace(/&/g, `&amp;`)
+    .replace(/</g, `&lt;`)
+    .replace(/>/g, `&gt;`)
+    .replace(/"/g, `&quot;`)
+    .replace(/'/g, `&apos;`)
+
+/**
+ * Returns the decoded text of the first element with the tag
+ */
+export const getTag = (xml: string, tag: string) => {
+  const match = new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml)
+  return match ? decodeEntities(match[1]).trim() : undefined
+}